@@ -1,50 +1,38 @@
 // Metis - Hierarchical Diagram Generator for the browser
-import { HierarchyNode, DiagramOptions } from '../types/index.js';
-import { validateHierarchyInput, buildHierarchy } from '../core/hierarchy.js';
-import { createLayoutEngine } from '../layout/index.js';
+import { HierarchyInput, DiagramOptions, WarningHandler } from '../types/index.js';
+import { layoutInput } from '../core/pipeline.js';
 import { SvgRenderer } from '../rendering/index.js';
-import { DEFAULT_DIAGRAM_OPTIONS } from '../config/index.js';
+import { resolveDiagramOptions } from '../config/index.js';
+import { consoleWarningHandler } from '../utils/warnings.js';
 
 /**
  * Render a diagram into a DOM element
  * 
- * @param nodes - Input hierarchy data
+ * @param input - Input hierarchy data (flat node list or nested tree)
  * @param targetElement - DOM element to render into
  * @param options - Configuration options
+ * @param onWarning - Handler for diagnostics such as resolved orphans (logs to the console by default)
  */
 export async function render(
-  nodes: HierarchyNode[],
+  input: HierarchyInput,
   targetElement: HTMLElement,
-  options: DiagramOptions = {}
+  options: DiagramOptions = {},
+  onWarning: WarningHandler = consoleWarningHandler
 ): Promise<void> {
   try {
-    // Merge with default options
-    const mergedOptions = {
-      ...DEFAULT_DIAGRAM_OPTIONS,
-      ...options,
-      layout: { ...DEFAULT_DIAGRAM_OPTIONS.layout, ...options.layout },
-      style: { ...DEFAULT_DIAGRAM_OPTIONS.style, ...options.style }
-    };
+    // Merge with the theme and default options
+    const mergedOptions = resolveDiagramOptions(options, onWarning);
     
-    // Validate input
-    validateHierarchyInput(nodes);
-    
-    // Build hierarchy
-    const rootNodes = buildHierarchy(nodes);
-    
-    // Calculate layout
-    const layoutEngine = createLayoutEngine(mergedOptions.layout, mergedOptions.style);
-    const nodesWithLayout = layoutEngine.calculateLayout(rootNodes);
-    
-    // Get diagram dimensions
-    const dimensions = layoutEngine.getDiagramDimensions(nodesWithLayout);
+    // Normalize, validate, build and lay out the hierarchy
+    const { nodesWithLayout, dimensions, breadcrumb } = layoutInput(input, mergedOptions, onWarning);
     
     // Render to SVG
-    const renderer = new SvgRenderer(mergedOptions.style);
+    const renderer = new SvgRenderer(mergedOptions.style, onWarning);
     const svgString = await renderer.render(
       nodesWithLayout,
       dimensions.width,
-      dimensions.height
+      dimensions.height,
+      breadcrumb
     );
     
     // Set the SVG content in the target element
@@ -63,16 +51,18 @@ export class BrowserDiagramRenderer {
   /**
    * Render a diagram into a DOM element
    * 
-   * @param nodes - Input hierarchy data
+   * @param input - Input hierarchy data (flat node list or nested tree)
    * @param targetElement - DOM element to render into
    * @param options - Configuration options
+   * @param onWarning - Handler for diagnostics (logs to the console by default)
    */
   static async render(
-    nodes: HierarchyNode[],
+    input: HierarchyInput,
     targetElement: HTMLElement,
-    options: DiagramOptions = {}
+    options: DiagramOptions = {},
+    onWarning: WarningHandler = consoleWarningHandler
   ): Promise<void> {
-    return render(nodes, targetElement, options);
+    return render(input, targetElement, options, onWarning);
   }
 }
 
@@ -10,13 +10,16 @@ export const DEFAULT_LAYOUT_OPTIONS: Required<LayoutOptions> = {
   minNodeWidth: 100,
   minNodeHeight: 60,
   targetAspectRatio: 16 / 9,
-  layoutType: 'aspectRatioGrid'
+  layoutType: 'grid',
+  sortChildren: 'input',
+  preserveOrder: false
 };
 
 /**
  * Default style options
  */
 export const DEFAULT_STYLE_OPTIONS: Required<StyleOptions> = {
+  theme: 'default',
   fontFamily: 'Arial, sans-serif',
   fontSize: 14,
   fontColor: '#000000',
@@ -39,5 +42,13 @@ export const DEFAULT_DIAGRAM_OPTIONS: Required<DiagramOptions> = {
   layout: DEFAULT_LAYOUT_OPTIONS,
   style: DEFAULT_STYLE_OPTIONS,
   format: 'svg',
-  outputPath: 'diagram.svg'
+  formatOptions: {},
+  outputPath: 'diagram.svg',
+  orphanPolicy: 'error',
+  orphanRootName: 'Unassigned',
+  focus: [],
+  maxDepth: Infinity,
+  breadcrumb: false,
+  filter: '',
+  filterMode: 'hide'
 };
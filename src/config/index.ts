@@ -1 +1,4 @@
 export * from './defaults.js';
+export * from './merge.js';
+export * from './palette.js';
+export * from './themes.js';
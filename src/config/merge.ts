@@ -0,0 +1,72 @@
+import { DiagramOptions, WarningHandler } from '../types/index.js';
+import { DEFAULT_DIAGRAM_OPTIONS, DEFAULT_STYLE_OPTIONS } from './defaults.js';
+import { findTheme, listThemes } from './themes.js';
+
+/**
+ * Copy an object, leaving out keys whose value is undefined
+ */
+function withoutUndefined<T extends object>(value: T | undefined): Partial<T> {
+  const result: Partial<T> = {};
+  if (!value) return result;
+  
+  (Object.keys(value) as (keyof T)[]).forEach(key => {
+    if (value[key] !== undefined) {
+      result[key] = value[key];
+    }
+  });
+  
+  return result;
+}
+
+/**
+ * Merge diagram options from several sources.
+ * Later sources take precedence; layout, style and format options are merged key by key,
+ * and undefined values never override earlier ones.
+ * 
+ * @param sources - Option sources, from lowest to highest precedence
+ * @returns The merged diagram options
+ */
+export function mergeDiagramOptions(...sources: (DiagramOptions | undefined)[]): DiagramOptions {
+  return sources.reduce<DiagramOptions>((merged, source) => {
+    if (!source) return merged;
+    
+    return {
+      ...merged,
+      ...withoutUndefined(source),
+      layout: { ...merged.layout, ...withoutUndefined(source.layout) },
+      style: { ...merged.style, ...withoutUndefined(source.style) },
+      formatOptions: { ...merged.formatOptions, ...withoutUndefined(source.formatOptions) }
+    };
+  }, {});
+}
+
+/**
+ * Merge diagram options over the defaults and the values of the selected theme.
+ * Precedence: explicit options > theme > DEFAULT_DIAGRAM_OPTIONS. An explicit `colorPalette`
+ * also replaces the theme's `colorByLevel`, unless `colorByLevel` is given too.
+ * An unknown theme is reported to the warning handler and the default style is used.
+ * 
+ * @param options - Diagram options, selecting a theme with `style.theme`
+ * @param onWarning - Handler for an unknown theme
+ * @returns The merged diagram options
+ */
+export function resolveDiagramOptions(options: DiagramOptions, onWarning: WarningHandler): DiagramOptions {
+  const themeName = options.style?.theme ?? DEFAULT_STYLE_OPTIONS.theme;
+  const theme = findTheme(themeName);
+  
+  if (!theme) {
+    const available = listThemes().map(info => info.name).join(', ');
+    onWarning({
+      code: 'UNKNOWN_THEME',
+      message: `Unknown theme "${themeName}", using the default style. Available themes: ${available}`
+    });
+  }
+  
+  // An explicit palette keeps its own key type: the theme's colorByLevel belongs to the
+  // theme's palette and would make root-ID keys be read as levels
+  const themeStyle = theme && options.style?.colorPalette !== undefined && options.style.colorByLevel === undefined
+    ? { ...theme.style, colorByLevel: undefined }
+    : theme?.style;
+  
+  return mergeDiagramOptions(DEFAULT_DIAGRAM_OPTIONS, { style: themeStyle }, options);
+}
@@ -0,0 +1,113 @@
+import { StyleOptions } from '../types/index.js';
+import { InputError } from '../errors/index.js';
+
+/**
+ * A set of background colors and how they are assigned to nodes
+ */
+export interface ColorPalette {
+  /** Colors keyed by root node ID, or by level (`"0"`, `"1"`, ... and `"leaf"`) */
+  colors: Record<string, string>;
+
+  /** Whether the keys are hierarchy levels rather than root node IDs */
+  byLevel: boolean;
+}
+
+// Keys of a level palette: a hierarchy level, or "leaf" for leaf nodes
+const LEVEL_KEY = /^(\d+|leaf)$/;
+
+/**
+ * Read a palette definition. Three shapes are accepted:
+ *  - a color map, keyed by root node ID or, if every key is a level, by level
+ *  - `{ "byLevel": true, "colors": { ... } }`, to state the key type explicitly
+ *  - `{ "palettes": { "<name>": <palette>, ... } }`, a set of named palettes
+ *
+ * @param data - Parsed palette definition (e.g. the contents of a palette JSON file)
+ * @param name - Name of the palette to pick from a set of named palettes; may be
+ *   omitted when the set holds a single palette
+ * @returns The selected palette
+ * @throws InputError if the definition is invalid or the palette is not found
+ */
+export function parsePalette(data: unknown, name?: string): ColorPalette {
+  if (isMapping(data) && 'palettes' in data) {
+    if (!isMapping(data.palettes)) {
+      throw new InputError('Invalid palettes: expected a mapping of palette names to palettes');
+    }
+
+    const names = Object.keys(data.palettes);
+    const selected = name ?? (names.length === 1 ? names[0] : undefined);
+
+    if (selected === undefined) {
+      throw new InputError(`Several palettes are defined; pick one of ${names.join(', ')}`);
+    }
+    if (!(selected in data.palettes)) {
+      throw new InputError(`Unknown palette "${selected}"; available palettes: ${names.join(', ') || 'none'}`);
+    }
+
+    return readPalette(data.palettes[selected], `palette "${selected}"`);
+  }
+
+  if (name !== undefined) {
+    throw new InputError(`Cannot select palette "${name}": the definition holds a single palette`);
+  }
+
+  return readPalette(data, 'palette');
+}
+
+/**
+ * Apply a palette to style options, setting `colorPalette` and `colorByLevel`
+ *
+ * @param style - Style options to extend
+ * @param palette - Palette to apply
+ * @returns A copy of the style options using the palette
+ */
+export function applyPalette(style: StyleOptions, palette: ColorPalette): StyleOptions {
+  return { ...style, colorPalette: { ...palette.colors }, colorByLevel: palette.byLevel };
+}
+
+/**
+ * Find the root nodes that a root-ID palette gives no color to.
+ * Level palettes and empty palettes color every node, so nothing is reported for them.
+ *
+ * @param rootIds - IDs of the root nodes of the hierarchy
+ * @param style - Style options holding the palette
+ * @returns IDs of the roots without a palette color
+ */
+export function findUncoloredRoots(rootIds: string[], style: StyleOptions): string[] {
+  const colors = style.colorPalette ?? {};
+  if (style.colorByLevel || Object.keys(colors).length === 0) return [];
+
+  return rootIds.filter(id => !colors[id]);
+}
+
+/**
+ * Validate a single palette
+ */
+function readPalette(value: unknown, label: string): ColorPalette {
+  if (!isMapping(value)) {
+    throw new InputError(`Invalid ${label}: expected a mapping of keys to colors`);
+  }
+
+  const explicit = 'colors' in value && isMapping(value.colors);
+  const colors = explicit ? value.colors as Record<string, unknown> : value;
+
+  if (explicit && value.byLevel !== undefined && typeof value.byLevel !== 'boolean') {
+    throw new InputError(`Invalid ${label}: "byLevel" must be a boolean`);
+  }
+
+  Object.entries(colors).forEach(([key, color]) => {
+    if (typeof color !== 'string' || color.trim() === '') {
+      throw new InputError(`Invalid ${label}: the color for "${key}" must be a non-empty string`);
+    }
+  });
+
+  const keys = Object.keys(colors);
+  const byLevel = explicit && value.byLevel !== undefined
+    ? value.byLevel as boolean
+    : keys.length > 0 && keys.every(key => LEVEL_KEY.test(key));
+
+  return { colors: colors as Record<string, string>, byLevel };
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,146 @@
+import { StyleOptions } from '../types/index.js';
+
+/**
+ * A named bundle of style values: fonts, border treatment, background, level palette
+ * and leaf colors. Explicit style options override the values of the theme.
+ */
+export interface ThemeDefinition {
+  /** Short description of the theme */
+  description?: string;
+
+  /** Style values applied by the theme */
+  style: Omit<StyleOptions, 'theme'>;
+}
+
+/**
+ * A registered theme, as listed by listThemes
+ */
+export interface ThemeInfo {
+  /** Name that selects the theme */
+  name: string;
+
+  /** Short description of the theme */
+  description: string;
+
+  /** Style values applied by the theme */
+  style: Omit<StyleOptions, 'theme'>;
+}
+
+// Registered themes in registration order, keyed by name
+const themes = new Map<string, ThemeDefinition>();
+
+/**
+ * Register a theme so it can be selected by name with the `style.theme` option.
+ * Registering an existing name replaces that theme.
+ *
+ * @param name - Name that selects the theme
+ * @param definition - Description and style values of the theme
+ */
+export function registerTheme(name: string, definition: ThemeDefinition): void {
+  themes.set(name, { ...definition, style: { ...definition.style } });
+}
+
+/**
+ * Find a registered theme
+ *
+ * @param name - Theme name
+ * @returns The theme definition, or undefined if no theme has that name
+ */
+export function findTheme(name: string): ThemeDefinition | undefined {
+  return themes.get(name);
+}
+
+/**
+ * List the registered themes
+ *
+ * @returns Registered themes, in registration order
+ */
+export function listThemes(): ThemeInfo[] {
+  return Array.from(themes.entries()).map(([name, definition]) => ({
+    name,
+    description: definition.description ?? '',
+    style: { ...definition.style }
+  }));
+}
+
+// Built-in themes
+registerTheme('default', {
+  description: 'Light gray boxes with black borders (the default style)',
+  style: {}
+});
+
+registerTheme('corporate', {
+  description: 'Muted blue-gray levels with a clean sans-serif font',
+  style: {
+    fontFamily: 'Segoe UI, Helvetica, Arial, sans-serif',
+    fontColor: '#1f2933',
+    borderWidth: 1,
+    borderColor: '#52606d',
+    borderRadius: 3,
+    backgroundColor: '#f5f7fa',
+    colorByLevel: true,
+    colorPalette: {
+      0: '#d9e2ec',
+      1: '#bcccdc',
+      2: '#e4ecf5',
+      3: '#f0f4f8',
+      leaf: '#ffffff'
+    }
+  }
+});
+
+registerTheme('print', {
+  description: 'Grayscale levels with square black borders, for printing',
+  style: {
+    fontFamily: 'Helvetica, Arial, sans-serif',
+    fontColor: '#000000',
+    borderWidth: 1,
+    borderColor: '#000000',
+    borderRadius: 0,
+    backgroundColor: '#ffffff',
+    colorByLevel: true,
+    colorPalette: {
+      0: '#d9d9d9',
+      1: '#ececec',
+      2: '#f7f7f7',
+      leaf: '#ffffff'
+    }
+  }
+});
+
+registerTheme('dark', {
+  description: 'Light text on dark levels, for dark slides and pages',
+  style: {
+    fontColor: '#e6edf3',
+    borderWidth: 1,
+    borderColor: '#8b949e',
+    borderRadius: 6,
+    backgroundColor: '#161b22',
+    colorByLevel: true,
+    colorPalette: {
+      0: '#0d1117',
+      1: '#161b22',
+      2: '#21262d',
+      3: '#30363d',
+      leaf: '#2d333b'
+    }
+  }
+});
+
+registerTheme('high-contrast', {
+  description: 'Black text and thick black borders on white and yellow, for accessibility',
+  style: {
+    fontColor: '#000000',
+    borderWidth: 2,
+    borderColor: '#000000',
+    borderRadius: 0,
+    backgroundColor: '#ffffff',
+    colorByLevel: true,
+    colorPalette: {
+      0: '#ffd500',
+      1: '#ffffff',
+      2: '#fff4b3',
+      leaf: '#ffffff'
+    }
+  }
+});
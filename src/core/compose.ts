@@ -0,0 +1,49 @@
+import { HierarchyNode, HierarchySource } from '../types/index.js';
+import { ValidationError } from '../errors/index.js';
+
+/**
+ * Composes several hierarchies into one flat node list.
+ * Namespaced sources get their IDs (and internal parent references) prefixed,
+ * and mounted sources have their root nodes attached under the mount node.
+ * 
+ * @param sources - Hierarchies in the order they should appear
+ * @returns Flat array of hierarchy nodes, ready for validation
+ * @throws ValidationError listing every node ID defined more than once, with the sources that define it
+ */
+export function composeHierarchies(sources: HierarchySource[]): HierarchyNode[] {
+  const nodes: HierarchyNode[] = [];
+  const definedIn = new Map<string, string>();
+  const duplicates: string[] = [];
+  const duplicateIds = new Set<string>();
+  
+  sources.forEach(source => {
+    // Non-string IDs are passed through unchanged for validation to report
+    const qualify = (id: string) =>
+      (source.namespace && typeof id === 'string' ? `${source.namespace}/${id}` : id);
+    
+    source.nodes.forEach(node => {
+      const id = qualify(node.id);
+      
+      const firstSource = definedIn.get(id);
+      if (firstSource !== undefined) {
+        duplicates.push(`${id} in ${source.name} (already defined in ${firstSource})`);
+        duplicateIds.add(id);
+      } else {
+        definedIn.set(id, source.name);
+      }
+      
+      const parent = node.parent === null ? source.mountAt ?? null : qualify(node.parent);
+      nodes.push({ ...node, id, parent });
+    });
+  });
+  
+  if (duplicates.length > 0) {
+    throw new ValidationError(
+      `Duplicate node ids across inputs:\n  ${duplicates.join('\n  ')}`,
+      [],
+      { nodeIds: Array.from(duplicateIds) }
+    );
+  }
+  
+  return nodes;
+}
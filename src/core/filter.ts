@@ -0,0 +1,164 @@
+import { HierarchyNode, NodePredicate } from '../types/index.js';
+import { InputError } from '../errors/index.js';
+
+/**
+ * Parse a filter expression into a node predicate.
+ *
+ * An expression combines conditions with `and`, `or`, `not` and parentheses:
+ *  - `tag:<tag>` matches nodes carrying the tag
+ *  - `<key>=<value>` and `<key>!=<value>` compare a property (or a node field such as
+ *    `name`) with a value
+ *  - `<key>` matches nodes that have the property
+ *
+ * Values containing spaces or parentheses are quoted, e.g. `status="in progress"`.
+ * An empty expression matches every node.
+ *
+ * @param expression - Filter expression, e.g. `tag:regulatory and not status=retired`
+ * @returns Predicate that tells whether a node matches
+ * @throws InputError if the expression is malformed
+ */
+export function parseFilterExpression(expression: string): NodePredicate {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) return () => true;
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const fail = (message: string): never => {
+    throw new InputError(`Invalid filter "${expression}": ${message}`);
+  };
+
+  function parseOr(): NodePredicate {
+    let predicate = parseAnd();
+    while (peek() === 'or') {
+      position++;
+      const left = predicate;
+      const right = parseAnd();
+      predicate = node => left(node) || right(node);
+    }
+    return predicate;
+  }
+
+  function parseAnd(): NodePredicate {
+    let predicate = parseUnary();
+    while (peek() === 'and') {
+      position++;
+      const left = predicate;
+      const right = parseUnary();
+      predicate = node => left(node) && right(node);
+    }
+    return predicate;
+  }
+
+  function parseUnary(): NodePredicate {
+    const token = peek();
+
+    if (token === undefined) {
+      return fail('unexpected end of expression');
+    }
+
+    if (token === 'not') {
+      position++;
+      const operand = parseUnary();
+      return node => !operand(node);
+    }
+
+    if (token === '(') {
+      position++;
+      const inner = parseOr();
+      if (peek() !== ')') fail('missing closing parenthesis');
+      position++;
+      return inner;
+    }
+
+    if (token === ')' || token === 'and' || token === 'or') {
+      return fail(`unexpected "${token}"`);
+    }
+
+    position++;
+    return parseCondition(token, fail);
+  }
+
+  const predicate = parseOr();
+  if (position < tokens.length) {
+    fail(`unexpected "${tokens[position]}"`);
+  }
+
+  return predicate;
+}
+
+/**
+ * Split an expression into parentheses, keywords and conditions, keeping quoted text together
+ */
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  const flush = () => {
+    if (current !== '') tokens.push(current);
+    current = '';
+  };
+
+  for (const char of expression) {
+    if (quote) {
+      current += char;
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      current += char;
+      quote = char;
+    } else if (/\s/.test(char)) {
+      flush();
+    } else if (char === '(' || char === ')') {
+      flush();
+      tokens.push(char);
+    } else {
+      current += char;
+    }
+  }
+
+  if (quote) {
+    throw new InputError(`Invalid filter "${expression}": unterminated quote`);
+  }
+  flush();
+
+  return tokens;
+}
+
+/**
+ * Build the predicate for a single condition such as `tag:regulatory` or `status=target`
+ */
+function parseCondition(condition: string, fail: (message: string) => never): NodePredicate {
+  if (condition.startsWith('tag:')) {
+    const tag = unquote(condition.slice(4));
+    if (tag === '') fail('missing tag name after "tag:"');
+    return node => (node.tags ?? []).includes(tag);
+  }
+
+  const match = /^([^=!]+)(!=|=)(.*)$/.exec(condition);
+  if (!match) {
+    const key = unquote(condition);
+    return node => readValue(node, key) !== undefined;
+  }
+
+  const [, key, operator, rawValue] = match;
+  const value = unquote(rawValue);
+
+  return operator === '='
+    ? node => String(readValue(node, key)) === value
+    : node => String(readValue(node, key)) !== value;
+}
+
+/**
+ * Read a node property, falling back to the node field of the same name
+ */
+function readValue(node: HierarchyNode, key: string): unknown {
+  if (node.properties && key in node.properties) {
+    return node.properties[key];
+  }
+  return (node as unknown as Record<string, unknown>)[key];
+}
+
+function unquote(value: string): string {
+  const quoted = /^(["'])(.*)\1$/.exec(value);
+  return quoted ? quoted[2] : value;
+}
@@ -1,56 +1,222 @@
-import { HierarchyNode, DiagramOptions, OutputFormat } from '../types/index.js';
-import { validateHierarchyInput, buildHierarchy } from './hierarchy.js';
-import { createLayoutEngine } from '../layout/index.js';
-import { SvgRenderer } from '../rendering/index.js';
-import { convertOutput } from '../output/index.js';
-import { DEFAULT_DIAGRAM_OPTIONS } from '../config/index.js';
+import {
+  HierarchyInput,
+  DiagramOptions,
+  DiagramResult,
+  DiagramTimings,
+  DiagramWarning,
+  LayoutResult,
+  OutputFormat,
+  PositionedNode,
+  StyleOptions,
+  TreeNode,
+  WarningHandler
+} from '../types/index.js';
+import { flattenHierarchy } from './hierarchy.js';
+import { layoutInput } from './pipeline.js';
+import {
+  SvgRenderer,
+  calculateFontSize,
+  calculateMaxDepth,
+  getLabelLines
+} from '../rendering/index.js';
+import { findOutputFormat } from '../output/index.js';
+import { DEFAULT_STYLE_OPTIONS, resolveDiagramOptions } from '../config/index.js';
+import { consoleWarningHandler } from '../utils/warnings.js';
+import { ConversionError, MetisError, RenderError, errorMessage } from '../errors/index.js';
 
 /**
  * Generate a diagram from the input hierarchy data
  * 
- * @param nodes - Input hierarchy data
+ * @param input - Input hierarchy data (flat node list or nested tree)
  * @param options - Configuration options
+ * @param onWarning - Handler for diagnostics (logs to the console by default)
  * @returns The generated diagram in the specified format
+ * @throws MetisError subclass identifying the failed step (see generateDiagramDetailed)
  */
 export async function generateDiagram(
-  nodes: HierarchyNode[],
-  options: DiagramOptions = {}
+  input: HierarchyInput,
+  options: DiagramOptions = {},
+  onWarning: WarningHandler = consoleWarningHandler
 ): Promise<string | Buffer> {
-  try {
-    // Merge with default options
-    const mergedOptions = {
-      ...DEFAULT_DIAGRAM_OPTIONS,
-      ...options,
-      layout: { ...DEFAULT_DIAGRAM_OPTIONS.layout, ...options.layout },
-      style: { ...DEFAULT_DIAGRAM_OPTIONS.style, ...options.style }
+  const result = await generateDiagramDetailed(input, options);
+  result.warnings.forEach(onWarning);
+  
+  return result.output;
+}
+
+/**
+ * Generate a diagram and report how it was produced.
+ * Warnings are collected in the result instead of being written to the console.
+ * 
+ * @param input - Input hierarchy data (flat node list or nested tree)
+ * @param options - Configuration options
+ * @returns The diagram with its dimensions, resolved options, node layout, timings and warnings
+ * @throws ValidationError or CycleError if the input is invalid
+ * @throws LayoutError, RenderError or ConversionError if a later step fails
+ */
+export async function generateDiagramDetailed(
+  input: HierarchyInput,
+  options: DiagramOptions = {}
+): Promise<DiagramResult> {
+  const warnings: DiagramWarning[] = [];
+  const onWarning = (warning: DiagramWarning) => warnings.push(warning);
+  
+  const timings: DiagramTimings = { normalize: 0, validate: 0, hierarchy: 0, layout: 0, render: 0, convert: 0, total: 0 };
+  const start = performance.now();
+  let mark = start;
+  const markStep = (step: keyof DiagramTimings) => {
+    const now = performance.now();
+    timings[step] = now - mark;
+    mark = now;
+  };
+  
+  // Merge with the theme and default options
+  const mergedOptions = resolveDiagramOptions(options, onWarning);
+  
+  // Normalize, validate, build and lay out the hierarchy
+  const { layoutEngine, nodesWithLayout, dimensions, breadcrumb } = layoutInput(input, mergedOptions, onWarning, markStep);
+  
+  const format = findOutputFormat(mergedOptions.format as OutputFormat);
+  if (!format) {
+    throw new ConversionError(`Unsupported output format: ${mergedOptions.format}`);
+  }
+  const formatOptions = mergedOptions.formatOptions ?? {};
+  const wrapConversionError = (message: string, cause: unknown) =>
+    new ConversionError(`Failed to convert diagram: ${message}`, { cause });
+  
+  let output: string | Buffer;
+  if (format.convertLayout) {
+    // Convert the layout directly, without rendering SVG
+    const layoutResult: LayoutResult = {
+      ...dimensions,
+      engine: layoutEngine.name,
+      nodes: positionNodes(nodesWithLayout, mergedOptions.style),
+      breadcrumb,
+      warnings
     };
+    markStep('render');
     
-    // Validate input
-    validateHierarchyInput(nodes);
-    
-    // Build hierarchy
-    const rootNodes = buildHierarchy(nodes);
-    
-    // Calculate layout
-    const layoutEngine = createLayoutEngine(mergedOptions.layout, mergedOptions.style);
-    const nodesWithLayout = layoutEngine.calculateLayout(rootNodes);
-    
-    // Get diagram dimensions
-    const dimensions = layoutEngine.getDiagramDimensions(nodesWithLayout);
-    
+    const convertLayout = format.convertLayout;
+    output = await runStep(() => convertLayout(layoutResult, formatOptions), wrapConversionError);
+    markStep('convert');
+  } else {
     // Render to SVG
-    const renderer = new SvgRenderer(mergedOptions.style);
-    const svgString = await renderer.render(
-      nodesWithLayout,
-      dimensions.width,
-      dimensions.height
+    const renderer = new SvgRenderer(mergedOptions.style, onWarning);
+    const svgString = await runStep(
+      () => renderer.render(nodesWithLayout, dimensions.width, dimensions.height, breadcrumb),
+      (message, cause) => new RenderError(`Failed to render diagram: ${message}`, { cause })
     );
+    markStep('render');
     
     // Convert to requested output format
-    const output = await convertOutput(svgString, mergedOptions.format as OutputFormat);
+    // Every format defines convert or convertLayout; this is only for the type checker
+    const convert = format.convert ?? ((svg: string) => svg);
+    output = await runStep(() => convert(svgString, formatOptions), wrapConversionError);
+    markStep('convert');
+  }
+  timings.total = mark - start;
+  
+  return {
+    output,
+    width: dimensions.width,
+    height: dimensions.height,
+    options: mergedOptions,
+    engine: layoutEngine.name,
+    layout: flattenHierarchy(nodesWithLayout).map(({ node, path }) => ({
+      id: node.data.id,
+      parent: node.data.parent,
+      depth: path.length - 1,
+      x: node.layout?.x ?? 0,
+      y: node.layout?.y ?? 0,
+      width: node.layout?.width ?? 0,
+      height: node.layout?.height ?? 0
+    })),
+    timings,
+    warnings
+  };
+}
+
+/**
+ * Lay out a hierarchy without rendering it, for drawing the diagram with another renderer.
+ * The result is plain data and can be serialized as JSON.
+ * 
+ * @param input - Input hierarchy data (flat node list or nested tree)
+ * @param options - Configuration options (the output format is ignored)
+ * @returns Diagram dimensions, the layout engine used, the positioned nodes and any warnings
+ * @throws ValidationError or CycleError if the input is invalid
+ * @throws LayoutError if the layout engine fails
+ */
+export function computeLayout(
+  input: HierarchyInput,
+  options: DiagramOptions = {}
+): LayoutResult {
+  const warnings: DiagramWarning[] = [];
+  const onWarning = (warning: DiagramWarning) => warnings.push(warning);
+  const mergedOptions = resolveDiagramOptions(options, onWarning);
+  
+  const { layoutEngine, nodesWithLayout, dimensions, breadcrumb } = layoutInput(input, mergedOptions, onWarning);
+  
+  return {
+    ...dimensions,
+    engine: layoutEngine.name,
+    nodes: positionNodes(nodesWithLayout, mergedOptions.style),
+    breadcrumb,
+    warnings
+  };
+}
+
+/**
+ * Describe every laid-out node with its box, content area and label
+ */
+function positionNodes(rootNodes: TreeNode[], style: StyleOptions = {}): PositionedNode[] {
+  const maxDepth = calculateMaxDepth(rootNodes);
+  
+  return flattenHierarchy(rootNodes).map(({ node, path }) => {
+    const depth = path.length - 1;
+    const box = {
+      x: node.layout?.x ?? 0,
+      y: node.layout?.y ?? 0,
+      width: node.layout?.width ?? 0,
+      height: node.layout?.height ?? 0
+    };
+    const fontSize = calculateFontSize(
+      style.fontSize ?? DEFAULT_STYLE_OPTIONS.fontSize,
+      node.children.length === 0,
+      depth,
+      maxDepth
+    );
     
-    return output;
+    return {
+      id: node.data.id,
+      name: node.data.name,
+      parent: node.data.parent,
+      depth,
+      ...box,
+      contentArea: node.layout?.contentArea ? { ...node.layout.contentArea } : box,
+      fontSize,
+      labelLines: getLabelLines(node, fontSize, style),
+      dimmed: node.dimmed === true
+    };
+  });
+}
+
+/**
+ * Run a generation step, wrapping unexpected errors in the error type for that step
+ */
+async function runStep<T>(
+  step: () => T | Promise<T>,
+  wrap: (message: string, cause: unknown) => MetisError
+): Promise<T> {
+  try {
+    return await step();
   } catch (error) {
-    throw new Error(`Failed to generate diagram: ${error}`);
+    throw wrapError(error, wrap);
   }
 }
+
+/**
+ * Pass Metis errors through unchanged and wrap anything else
+ */
+function wrapError(error: unknown, wrap: (message: string, cause: unknown) => MetisError): MetisError {
+  return error instanceof MetisError ? error : wrap(errorMessage(error), error);
+}
@@ -1,11 +1,37 @@
-import { HierarchyNode, TreeNode } from '../types/index.js';
+import {
+  FilterMode,
+  HierarchyInput,
+  HierarchyNode,
+  NestedHierarchyNode,
+  NodePredicate,
+  SortStrategy,
+  TreeNode
+} from '../types/index.js';
+import { isNestedTree, parseNestedTree } from '../importers/nestedImporter.js';
+import { CycleError, LayoutError, ValidationError } from '../errors/index.js';
+import { validateHierarchy } from './validation.js';
+
+/**
+ * Normalizes hierarchy input into a flat node list
+ * 
+ * @param input - Flat node list or nested tree(s)
+ * @returns Flat array of hierarchy nodes
+ */
+export function normalizeHierarchyInput(input: HierarchyInput): HierarchyNode[] {
+  if (isNestedTree(input)) {
+    return parseNestedTree(input as NestedHierarchyNode | NestedHierarchyNode[]);
+  }
+  
+  return input as HierarchyNode[];
+}
 
 /**
  * Builds a tree structure from flat node data
  * 
  * @param nodes - Flat array of hierarchy nodes
  * @returns Root nodes of the tree
- * @throws Error if circular dependencies or invalid parent references are found
+ * @throws CycleError if circular dependencies are found
+ * @throws ValidationError if invalid parent references are found
  */
 export function buildHierarchy(nodes: HierarchyNode[]): TreeNode[] {
   // Create a map of nodes by ID for easy lookup
@@ -27,7 +53,8 @@ export function buildHierarchy(nodes: HierarchyNode[]): TreeNode[] {
   function detectCycle(nodeId: string, path: string[] = []): boolean {
     if (visited.has(nodeId)) return false;
     if (visiting.has(nodeId)) {
-      throw new Error(`Circular dependency detected: ${[...path, nodeId].join(' -> ')}`);
+      const cycle = [...path, nodeId];
+      throw new CycleError(`Circular dependency detected: ${cycle.join(' -> ')}`, [], { nodeIds: cycle });
     }
     
     visiting.add(nodeId);
@@ -37,7 +64,7 @@ export function buildHierarchy(nodes: HierarchyNode[]): TreeNode[] {
     
     const parent = node.data.parent;
     if (parent && !visited.has(parent)) {
-      return detectCycle(parent, [...path, nodeId]);
+      detectCycle(parent, [...path, nodeId]);
     }
     
     visiting.delete(nodeId);
@@ -65,7 +92,7 @@ export function buildHierarchy(nodes: HierarchyNode[]): TreeNode[] {
     } else {
       const parentNode = nodeMap.get(node.parent);
       if (!parentNode) {
-        throw new Error(`Parent node ${node.parent} not found for node ${node.id}`);
+        throw new ValidationError(`Parent node ${node.parent} not found for node ${node.id}`, [], { nodeIds: [node.id] });
       }
       
       parentNode.children.push(treeNode);
@@ -100,42 +127,166 @@ export function flattenHierarchy(rootNodes: TreeNode[]): { node: TreeNode; path:
 }
 
 /**
- * Validates the input hierarchy data
+ * Sorts sibling nodes at every level of the tree.
+ * Sorting is stable, so siblings that compare equal keep their input order.
  * 
- * @param nodes - Flat array of hierarchy nodes to validate
- * @throws Error if validation fails
+ * @param rootNodes - Root nodes of the tree
+ * @param strategy - Sort strategy or custom comparator
+ * @returns The sorted root nodes (children are sorted in place)
+ * @throws LayoutError if the sort strategy is unknown
  */
-export function validateHierarchyInput(nodes: HierarchyNode[]): void {
-  if (!Array.isArray(nodes)) {
-    throw new Error('Input must be an array of nodes');
+export function sortHierarchy(rootNodes: TreeNode[], strategy: SortStrategy = 'input'): TreeNode[] {
+  if (strategy === 'input') return rootNodes;
+  
+  const compare = typeof strategy === 'function' ? strategy : createComparator(strategy);
+  
+  function sortLevel(nodes: TreeNode[]): TreeNode[] {
+    nodes.forEach(node => {
+      node.children = sortLevel(node.children);
+    });
+    return [...nodes].sort(compare);
   }
   
-  // Check for empty input
-  if (nodes.length === 0) {
-    throw new Error('Input array cannot be empty');
+  return sortLevel(rootNodes);
+}
+
+/**
+ * Focuses the tree on some of its nodes: the focused nodes become the roots and
+ * everything outside their subtrees is left out. A focused node inside the subtree
+ * of another focused node is already shown there and is skipped.
+ * 
+ * @param rootNodes - Root nodes of the tree
+ * @param focus - IDs of the nodes to focus on; an empty list keeps the whole tree
+ * @returns The new root nodes, and the names of the ancestors they share (from the top)
+ * @throws ValidationError if a focused node does not exist
+ */
+export function focusHierarchy(rootNodes: TreeNode[], focus: string[]): { rootNodes: TreeNode[]; breadcrumb: string[] } {
+  if (focus.length === 0) return { rootNodes, breadcrumb: [] };
+  
+  const entries = new Map(flattenHierarchy(rootNodes).map(entry => [entry.node.data.id, entry]));
+  
+  const missing = focus.filter(id => !entries.has(id));
+  if (missing.length > 0) {
+    throw new ValidationError(`Focus node not found: ${missing.join(', ')}`, [], { nodeIds: missing });
   }
   
-  // Track node IDs to check for duplicates
-  const nodeIds = new Set<string>();
+  const focusIds = new Set(focus);
+  const focused = Array.from(focusIds)
+    .map(id => entries.get(id) as { node: TreeNode; path: string[] })
+    .filter(({ path }) => !path.slice(0, -1).some(id => focusIds.has(id)));
   
-  // Validate each node
-  nodes.forEach((node, index) => {
-    if (!node.id) {
-      throw new Error(`Node at index ${index} is missing an id`);
-    }
-    
-    if (nodeIds.has(node.id)) {
-      throw new Error(`Duplicate node id: ${node.id}`);
-    }
-    
-    nodeIds.add(node.id);
+  // Ancestor path shared by every focused node
+  const ancestorPaths = focused.map(({ path }) => path.slice(0, -1));
+  const shared = ancestorPaths[0].filter((id, index) => ancestorPaths.every(path => path[index] === id));
+  
+  return {
+    // The focused nodes are roots now, so they lose their parent link
+    rootNodes: focused.map(({ node }) => ({ ...node, data: { ...node.data, parent: null } })),
+    breadcrumb: shared.map(id => (entries.get(id) as { node: TreeNode }).node.data.name)
+  };
+}
+
+/**
+ * Keeps the nodes that match a predicate, along with their ancestors so the structure
+ * stays intact. In `dim` mode the other nodes are kept too, marked as dimmed.
+ * 
+ * @param rootNodes - Root nodes of the tree
+ * @param predicate - Tells whether a node matches
+ * @param mode - Whether nodes that do not match are hidden or dimmed
+ * @returns The root nodes that are kept (children are filtered in place)
+ * @throws ValidationError if no node matches in `hide` mode
+ */
+export function filterHierarchy(rootNodes: TreeNode[], predicate: NodePredicate, mode: FilterMode = 'hide'): TreeNode[] {
+  // Returns whether the node or one of its descendants matches
+  function visit(node: TreeNode): boolean {
+    const childMatches = node.children.map(visit);
+    const keep = predicate(node.data) || childMatches.some(Boolean);
     
-    if (typeof node.name !== 'string') {
-      throw new Error(`Node ${node.id} has an invalid name`);
+    if (mode === 'hide') {
+      node.children = node.children.filter((_, index) => childMatches[index]);
+    } else if (!keep) {
+      node.dimmed = true;
     }
     
-    if (node.parent !== null && typeof node.parent !== 'string') {
-      throw new Error(`Node ${node.id} has an invalid parent reference`);
+    return keep;
+  }
+  
+  const rootMatches = rootNodes.map(visit);
+  if (mode === 'dim') return rootNodes;
+  
+  const kept = rootNodes.filter((_, index) => rootMatches[index]);
+  if (kept.length === 0) {
+    throw new ValidationError('No nodes match the filter');
+  }
+  
+  return kept;
+}
+
+/**
+ * Leaves out the nodes deeper than the given number of levels below the roots
+ * 
+ * @param rootNodes - Root nodes of the tree
+ * @param maxDepth - Number of levels to keep below the roots (0 keeps only the roots)
+ * @returns The root nodes (deeper children are removed in place)
+ */
+export function limitDepth(rootNodes: TreeNode[], maxDepth: number): TreeNode[] {
+  function prune(node: TreeNode, depth: number) {
+    if (depth >= maxDepth) {
+      node.children = [];
+      return;
     }
-  });
+    node.children.forEach(child => prune(child, depth + 1));
+  }
+  
+  rootNodes.forEach(root => prune(root, 0));
+  
+  return rootNodes;
+}
+
+/**
+ * Creates the comparator for a built-in sort strategy
+ */
+function createComparator(strategy: 'order' | 'name' | 'size'): (a: TreeNode, b: TreeNode) => number {
+  switch (strategy) {
+    case 'order':
+      // Nodes without an explicit order go after the ordered ones
+      return (a, b) => (a.data.order ?? Infinity) - (b.data.order ?? Infinity) || 0;
+    case 'name':
+      return (a, b) => a.data.name.localeCompare(b.data.name);
+    case 'size':
+      return (a, b) => nodeSize(b) - nodeSize(a);
+    default:
+      throw new LayoutError(`Unknown sort strategy: ${strategy}`);
+  }
+}
+
+/**
+ * Size of a node for the `size` sort: its numeric `size` property (such as the byte size
+ * of a directory entry) if it has one, otherwise its number of descendants
+ */
+function nodeSize(node: TreeNode): number {
+  const size = node.data.properties?.size;
+  return typeof size === 'number' && Number.isFinite(size) ? size : countDescendants(node);
+}
+
+function countDescendants(node: TreeNode): number {
+  return node.children.reduce((count, child) => count + 1 + countDescendants(child), 0);
+}
+
+/**
+ * Validates the input hierarchy data
+ * 
+ * @param nodes - Flat array of hierarchy nodes to validate
+ * @throws ValidationError listing every validation error (warnings are ignored),
+ * or CycleError if the only errors are circular dependencies
+ */
+export function validateHierarchyInput(nodes: HierarchyNode[]): void {
+  const errors = validateHierarchy(nodes).issues.filter(issue => issue.severity === 'error');
+  
+  if (errors.length > 0) {
+    const message = errors.map(issue => issue.message).join('\n');
+    throw errors.every(issue => issue.code === 'CYCLE')
+      ? new CycleError(message, errors)
+      : new ValidationError(message, errors);
+  }
 }
@@ -1,2 +1,6 @@
 export * from './generator.js';
 export * from './hierarchy.js';
+export * from './orphans.js';
+export * from './validation.js';
+export * from './compose.js';
+export * from './filter.js';
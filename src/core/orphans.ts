@@ -0,0 +1,94 @@
+import { HierarchyNode, OrphanPolicy, OrphanResolution, ValidationIssue } from '../types/index.js';
+import { ValidationError } from '../errors/index.js';
+
+// ID of the synthetic root used by the `attach-to` orphan policy
+const ORPHAN_ROOT_ID = '__unassigned__';
+
+/**
+ * Resolves nodes whose parent does not exist according to an orphan policy.
+ * Runs before validation, so entries that are not objects are passed through unchanged.
+ * 
+ * @param nodes - Flat array of hierarchy nodes
+ * @param policy - Orphan policy (`error` leaves the nodes unchanged for validation to reject)
+ * @param rootName - Name of the synthetic root for the `attach-to` policy
+ * @returns The resolved nodes and a warning for each orphan
+ */
+export function resolveOrphans(
+  nodes: HierarchyNode[],
+  policy: OrphanPolicy = 'error',
+  rootName = 'Unassigned'
+): OrphanResolution {
+  if (policy === 'error' || !Array.isArray(nodes)) {
+    return { nodes, issues: [] };
+  }
+  
+  const ids = new Set(nodes.map(node => node?.id));
+  const orphans = nodes.filter(node => typeof node?.parent === 'string' && !ids.has(node.parent));
+  
+  if (orphans.length === 0) {
+    return { nodes, issues: [] };
+  }
+  
+  const issues: ValidationIssue[] = [];
+  const warn = (node: HierarchyNode, resolution: string) => {
+    issues.push({
+      code: 'MISSING_PARENT',
+      severity: 'warning',
+      message: `Parent node ${node.parent} not found for node ${node.id}; ${resolution}`,
+      nodeId: node.id,
+      index: nodes.indexOf(node)
+    });
+  };
+  
+  switch (policy) {
+    case 'drop': {
+      const dropped = new Set<string>();
+      orphans.forEach(orphan => {
+        const before = dropped.size;
+        collectSubtree(nodes, orphan.id, dropped);
+        const descendants = dropped.size - before - 1;
+        warn(orphan, descendants > 0 ? `dropped with ${descendants} descendants` : 'dropped');
+      });
+      // Entries that are not nodes are kept for validation to report
+      return { nodes: nodes.filter(node => !dropped.has(node?.id)), issues };
+    }
+    
+    case 'promote-to-root':
+      orphans.forEach(orphan => warn(orphan, 'promoted to a root node'));
+      return {
+        nodes: nodes.map(node => (orphans.includes(node) ? { ...node, parent: null } : node)),
+        issues
+      };
+    
+    case 'attach-to': {
+      let rootId = ORPHAN_ROOT_ID;
+      for (let suffix = 2; ids.has(rootId); suffix++) {
+        rootId = `${ORPHAN_ROOT_ID}${suffix}`;
+      }
+      
+      orphans.forEach(orphan => warn(orphan, `attached to "${rootName}"`));
+      return {
+        nodes: [
+          ...nodes.map(node => (orphans.includes(node) ? { ...node, parent: rootId } : node)),
+          { id: rootId, name: rootName, parent: null }
+        ],
+        issues
+      };
+    }
+    
+    default:
+      throw new ValidationError(`Unknown orphan policy: ${policy}`);
+  }
+}
+
+/**
+ * Adds a node and all of its descendants to a set of IDs
+ */
+function collectSubtree(nodes: HierarchyNode[], rootId: string, ids: Set<string>): void {
+  if (ids.has(rootId)) return;
+  ids.add(rootId);
+  
+  nodes
+    .filter(node => node?.parent === rootId)
+    .forEach(child => collectSubtree(nodes, child.id, ids));
+}
@@ -0,0 +1,135 @@
+import {
+  HierarchyInput,
+  DiagramOptions,
+  DiagramTimings,
+  NodePredicate,
+  TreeNode,
+  WarningHandler
+} from '../types/index.js';
+import {
+  normalizeHierarchyInput,
+  validateHierarchyInput,
+  buildHierarchy,
+  filterHierarchy,
+  focusHierarchy,
+  limitDepth,
+  sortHierarchy
+} from './hierarchy.js';
+import { resolveOrphans } from './orphans.js';
+import { parseFilterExpression } from './filter.js';
+import { createLayoutEngine, LayoutEngine } from '../layout/index.js';
+import { addBreadcrumbHeader } from '../rendering/labels.js';
+import { findUncoloredRoots } from '../config/index.js';
+import textMeasurer from '../utils/textMeasure.js';
+import { LayoutError, MetisError, errorMessage } from '../errors/index.js';
+
+/**
+ * A hierarchy laid out by layoutInput, ready to be rendered
+ */
+export interface HierarchyLayout {
+  /** Layout engine that calculated the layout */
+  layoutEngine: LayoutEngine;
+  
+  /** Root nodes with layout information */
+  nodesWithLayout: TreeNode[];
+  
+  /** Diagram dimensions, including the breadcrumb header */
+  dimensions: { width: number; height: number };
+  
+  /** Names of the ancestors of the focused node, if a breadcrumb is shown */
+  breadcrumb: string[];
+}
+
+/**
+ * Normalize, validate and build the hierarchy, then calculate its layout.
+ * Shared by the generator and the browser entry, so it must not use Node-only modules.
+ * 
+ * @param input - Input hierarchy data
+ * @param options - Options merged with the defaults
+ * @param onWarning - Handler for diagnostics
+ * @param markStep - Called after each step, for timing
+ * @returns The laid-out hierarchy with its dimensions
+ * @throws ValidationError or CycleError if the input is invalid
+ * @throws InputError if the filter expression is malformed
+ * @throws LayoutError if the layout engine fails
+ */
+export function layoutInput(
+  input: HierarchyInput,
+  options: DiagramOptions,
+  onWarning: WarningHandler,
+  markStep: (step: keyof DiagramTimings) => void = () => undefined
+): HierarchyLayout {
+  // Normalize nested trees into a flat node list and resolve orphans
+  const { nodes, issues } = resolveOrphans(
+    normalizeHierarchyInput(input),
+    options.orphanPolicy,
+    options.orphanRootName
+  );
+  issues.forEach(issue => onWarning({ code: 'MISSING_PARENT', message: issue.message, nodeId: issue.nodeId }));
+  markStep('normalize');
+  
+  // Validate input
+  validateHierarchyInput(nodes);
+  markStep('validate');
+  
+  // Build hierarchy, keeping only the focused subtrees and the nodes that pass the
+  // filter, down to the maximum depth
+  const focused = focusHierarchy(buildHierarchy(nodes), toList(options.focus));
+  const filtered = options.filter
+    ? filterHierarchy(focused.rootNodes, toPredicate(options.filter), options.filterMode)
+    : focused.rootNodes;
+  const rootNodes = sortHierarchy(limitDepth(filtered, options.maxDepth ?? Infinity), options.layout?.sortChildren);
+  const breadcrumb = options.breadcrumb ? focused.breadcrumb : [];
+  
+  // Focused nodes keep the color of their original root
+  const paletteRoots = Array.from(new Set(rootNodes.map(node => node.rootAncestor ?? node.data.id)));
+  const uncoloredRoots = findUncoloredRoots(paletteRoots, options.style ?? {});
+  if (uncoloredRoots.length > 0) {
+    onWarning({
+      code: 'UNCOLORED_ROOTS',
+      message: `Color palette has no color for root nodes: ${uncoloredRoots.join(', ')}`
+    });
+  }
+  markStep('hierarchy');
+  
+  // Calculate layout
+  const layoutEngine = createLayoutEngine(options.layout, options.style, onWarning);
+  let nodesWithLayout: TreeNode[];
+  try {
+    nodesWithLayout = layoutEngine.calculateLayout(rootNodes);
+  } catch (error) {
+    throw error instanceof MetisError
+      ? error
+      : new LayoutError(`Failed to calculate layout: ${errorMessage(error)}`, { cause: error });
+  }
+  if (textMeasurer.estimated) {
+    onWarning({
+      code: 'TEXT_MEASUREMENT_ESTIMATED',
+      message: 'Canvas module not available. Text measurements were estimated.'
+    });
+  }
+  
+  // Get diagram dimensions, making room for the breadcrumb header
+  let dimensions = layoutEngine.getDiagramDimensions(nodesWithLayout);
+  if (breadcrumb.length > 0) {
+    dimensions = addBreadcrumbHeader(nodesWithLayout, dimensions, breadcrumb, options.style);
+  }
+  markStep('layout');
+  
+  return { layoutEngine, nodesWithLayout, dimensions, breadcrumb };
+}
+
+/**
+ * Turn the filter option into a predicate, parsing filter expressions
+ */
+function toPredicate(filter: string | NodePredicate): NodePredicate {
+  return typeof filter === 'string' ? parseFilterExpression(filter) : filter;
+}
+
+/**
+ * Normalize an option that takes one value or a list of values
+ */
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
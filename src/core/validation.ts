@@ -0,0 +1,182 @@
+import {
+  DiagramOptions,
+  HierarchyNode,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationReport,
+  ValidationSeverity
+} from '../types/index.js';
+import { resolveOrphans } from './orphans.js';
+
+/**
+ * Validates hierarchy input and reports every problem found, rather than
+ * stopping at the first one
+ * 
+ * @param nodes - Flat array of hierarchy nodes to validate
+ * @param options - Orphan policy; unless it is `error`, missing parents are reported as
+ * warnings describing how they will be resolved
+ * @returns Report listing all issues with their code, severity, node ID and index
+ */
+export function validateHierarchy(
+  nodes: HierarchyNode[],
+  options: Pick<DiagramOptions, 'orphanPolicy' | 'orphanRootName'> = {}
+): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  
+  const report = (
+    code: ValidationIssueCode,
+    severity: ValidationSeverity,
+    message: string,
+    nodeId?: string,
+    index?: number
+  ) => {
+    issues.push({ code, severity, message, nodeId, index });
+  };
+  
+  if (!Array.isArray(nodes)) {
+    report('INVALID_INPUT', 'error', 'Input must be an array of nodes');
+    return createReport(0, issues);
+  }
+  
+  if (nodes.length === 0) {
+    report('EMPTY_INPUT', 'error', 'Input array cannot be empty');
+    return createReport(0, issues);
+  }
+  
+  // First pass: node shape, IDs and fields
+  const firstIndex = new Map<string, number>();
+  const parentOf = new Map<string, string | null>();
+  
+  nodes.forEach((node, index) => {
+    if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+      report('INVALID_NODE', 'error', `Node at index ${index} is not an object`, undefined, index);
+      return;
+    }
+    
+    if (typeof node.id !== 'string' || node.id === '') {
+      report('MISSING_ID', 'error', `Node at index ${index} is missing an id`, undefined, index);
+      return;
+    }
+    
+    const id = node.id;
+    
+    if (id.trim() === '') {
+      report('BLANK_ID', 'error', `Node at index ${index} has a whitespace-only id`, id, index);
+    }
+    
+    const duplicateOf = firstIndex.get(id);
+    if (duplicateOf !== undefined) {
+      report('DUPLICATE_ID', 'error', `Duplicate node id: ${id} (first used at index ${duplicateOf})`, id, index);
+    } else {
+      firstIndex.set(id, index);
+    }
+    
+    if (typeof node.name !== 'string') {
+      report('INVALID_NAME', 'error', `Node ${id} has an invalid name`, id, index);
+    } else if (node.name.trim() === '') {
+      report('EMPTY_NAME', 'warning', `Node ${id} has an empty name`, id, index);
+    }
+    
+    if (node.parent !== null && typeof node.parent !== 'string') {
+      report('INVALID_PARENT', 'error', `Node ${id} has an invalid parent reference`, id, index);
+    } else if (duplicateOf === undefined) {
+      parentOf.set(id, node.parent);
+    }
+    
+    if (node.description !== undefined && typeof node.description !== 'string') {
+      report('INVALID_FIELD', 'error', `Node ${id} has an invalid description`, id, index);
+    }
+    
+    if (node.tags !== undefined &&
+        (!Array.isArray(node.tags) || node.tags.some(tag => typeof tag !== 'string'))) {
+      report('INVALID_FIELD', 'error', `Node ${id} has invalid tags (expected an array of strings)`, id, index);
+    }
+    
+    if (node.properties !== undefined &&
+        (typeof node.properties !== 'object' || node.properties === null || Array.isArray(node.properties))) {
+      report('INVALID_FIELD', 'error', `Node ${id} has invalid properties (expected an object)`, id, index);
+    }
+    
+    if (node.order !== undefined && (typeof node.order !== 'number' || !Number.isFinite(node.order))) {
+      report('INVALID_FIELD', 'error', `Node ${id} has an invalid order (expected a number)`, id, index);
+    }
+  });
+  
+  // Second pass: parent references
+  const orphanPolicy = options.orphanPolicy ?? 'error';
+  if (orphanPolicy !== 'error') {
+    issues.push(...resolveOrphans(nodes, orphanPolicy, options.orphanRootName).issues);
+  }
+  
+  nodes.forEach((node, index) => {
+    if (typeof node?.id !== 'string' || typeof node.parent !== 'string') return;
+    
+    if (node.parent === node.id) {
+      report('SELF_PARENT', 'error', `Node ${node.id} is its own parent`, node.id, index);
+    } else if (!firstIndex.has(node.parent) && orphanPolicy === 'error') {
+      report('MISSING_PARENT', 'error', `Parent node ${node.parent} not found for node ${node.id}`, node.id, index);
+    }
+  });
+  
+  // Third pass: cycles, reported once per cycle
+  const state = new Map<string, 'visiting' | 'done'>();
+  
+  parentOf.forEach((_, startId) => {
+    const path: string[] = [];
+    let current: string | null | undefined = startId;
+    
+    while (current !== null && current !== undefined && !state.has(current)) {
+      state.set(current, 'visiting');
+      path.push(current);
+      
+      const parent = parentOf.get(current);
+      current = parent !== undefined && parent !== current && parentOf.has(parent as string) ? parent : undefined;
+    }
+    
+    if (current !== null && current !== undefined && state.get(current) === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(current)), current];
+      report('CYCLE', 'error', `Circular dependency detected: ${cycle.join(' -> ')}`, current, firstIndex.get(current));
+    }
+    
+    path.forEach(id => state.set(id, 'done'));
+  });
+  
+  issues.sort((a, b) => (a.index ?? -1) - (b.index ?? -1));
+  
+  return createReport(nodes.length, issues);
+}
+
+/**
+ * Formats a validation report as human-readable text
+ * 
+ * @param report - Report returned by validateHierarchy
+ * @returns One line per issue followed by a summary line
+ */
+export function formatValidationReport(report: ValidationReport): string {
+  const lines = report.issues.map(issue => {
+    const location = [
+      issue.index !== undefined ? `index ${issue.index}` : undefined,
+      issue.nodeId !== undefined ? `id "${issue.nodeId}"` : undefined
+    ].filter(Boolean).join(', ');
+    
+    return `${issue.severity.toUpperCase()} ${issue.code}${location ? ` (${location})` : ''}: ${issue.message}`;
+  });
+  
+  const summary = `${report.nodeCount} nodes checked: ` +
+    `${report.errorCount} error${report.errorCount === 1 ? '' : 's'}, ` +
+    `${report.warningCount} warning${report.warningCount === 1 ? '' : 's'}`;
+  
+  return [...lines, summary].join('\n');
+}
+
+function createReport(nodeCount: number, issues: ValidationIssue[]): ValidationReport {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  
+  return {
+    valid: errorCount === 0,
+    nodeCount,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    issues
+  };
+}
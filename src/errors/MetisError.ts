@@ -0,0 +1,139 @@
+import { ValidationIssue } from '../types/index.js';
+
+/**
+ * Stable codes identifying the kind of failure
+ */
+export type MetisErrorCode =
+  | 'INPUT_ERROR'
+  | 'VALIDATION_ERROR'
+  | 'CYCLE_ERROR'
+  | 'LAYOUT_ERROR'
+  | 'RENDER_ERROR'
+  | 'CONVERSION_ERROR';
+
+/**
+ * Options for creating a Metis error
+ */
+export interface MetisErrorOptions {
+  /** IDs of the nodes that caused the error */
+  nodeIds?: string[];
+  
+  /** The underlying error, if any */
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors raised while generating a diagram
+ */
+export abstract class MetisError extends Error {
+  /** Stable, machine-readable error code */
+  abstract readonly code: MetisErrorCode;
+  
+  /** IDs of the nodes that caused the error (may be empty) */
+  readonly nodeIds: string[];
+  
+  /** The underlying error, if any */
+  readonly cause?: unknown;
+  
+  constructor(message: string, options: MetisErrorOptions = {}) {
+    super(message);
+    this.name = 'MetisError';
+    this.nodeIds = options.nodeIds ?? [];
+    if (options.cause !== undefined) {
+      this.cause = options.cause;
+    }
+  }
+}
+
+/**
+ * Input could not be read or parsed (user data error)
+ */
+export class InputError extends MetisError {
+  readonly code: MetisErrorCode = 'INPUT_ERROR';
+  
+  constructor(message: string, options: MetisErrorOptions = {}) {
+    super(message, options);
+    this.name = 'InputError';
+  }
+}
+
+/**
+ * Input hierarchy is invalid, e.g. has missing or duplicate IDs (user data error)
+ */
+export class ValidationError extends MetisError {
+  readonly code: MetisErrorCode = 'VALIDATION_ERROR';
+  
+  /** The validation issues that caused the error */
+  readonly issues: ValidationIssue[];
+  
+  constructor(message: string, issues: ValidationIssue[] = [], options: MetisErrorOptions = {}) {
+    super(message, {
+      ...options,
+      nodeIds: options.nodeIds ?? uniqueNodeIds(issues)
+    });
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Input hierarchy contains a circular parent reference (user data error)
+ */
+export class CycleError extends ValidationError {
+  readonly code: MetisErrorCode = 'CYCLE_ERROR';
+  
+  constructor(message: string, issues: ValidationIssue[] = [], options: MetisErrorOptions = {}) {
+    super(message, issues, options);
+    this.name = 'CycleError';
+  }
+}
+
+/**
+ * Layout engine failed to position the nodes
+ */
+export class LayoutError extends MetisError {
+  readonly code: MetisErrorCode = 'LAYOUT_ERROR';
+  
+  constructor(message: string, options: MetisErrorOptions = {}) {
+    super(message, options);
+    this.name = 'LayoutError';
+  }
+}
+
+/**
+ * SVG rendering failed, e.g. because rendering libraries are unavailable (environment error)
+ */
+export class RenderError extends MetisError {
+  readonly code: MetisErrorCode = 'RENDER_ERROR';
+  
+  constructor(message: string, options: MetisErrorOptions = {}) {
+    super(message, options);
+    this.name = 'RenderError';
+  }
+}
+
+/**
+ * Converting SVG to the output format failed, e.g. because a converter
+ * package is not installed (environment error)
+ */
+export class ConversionError extends MetisError {
+  readonly code: MetisErrorCode = 'CONVERSION_ERROR';
+  
+  constructor(message: string, options: MetisErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ConversionError';
+  }
+}
+
+/**
+ * Get the message of an unknown thrown value
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function uniqueNodeIds(issues: ValidationIssue[]): string[] {
+  return Array.from(new Set(
+    issues.map(issue => issue.nodeId).filter((id): id is string => id !== undefined)
+  ));
+}
@@ -0,0 +1,146 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { HierarchyNode } from '../types/index.js';
+import { InputError } from '../errors/index.js';
+import { withAttributes } from './common.js';
+
+/**
+ * Options for importing ArchiMate Open Exchange Format models
+ */
+export interface ArchimateImportOptions {
+  /** Element types to import (defaults to Capability only) */
+  elementTypes?: string[];
+
+  /** Relationship types that express containment (defaults to Composition and Aggregation) */
+  relationshipTypes?: string[];
+
+  /** Preferred xml:lang for names, documentation and property values */
+  language?: string;
+}
+
+// Elements that may occur more than once and should always be parsed as arrays
+const ARRAY_TAGS = new Set([
+  'element',
+  'relationship',
+  'property',
+  'propertyDefinition',
+  'name',
+  'documentation',
+  'value'
+]);
+
+type XmlNode = Record<string, any>;
+
+/**
+ * Import a capability hierarchy from an ArchiMate Open Exchange Format file.
+ * Composition/Aggregation relationships between imported elements become
+ * parent links (the relationship source is the parent). When an element has
+ * several containing elements, Composition wins over Aggregation, and
+ * otherwise the first relationship in the file is used.
+ *
+ * @param content - ArchiMate exchange XML
+ * @param options - Import options
+ * @returns Flat array of hierarchy nodes; documentation becomes the description, and the
+ * element type and properties become node properties
+ * @throws InputError if the XML is malformed or is not an exchange model
+ */
+export function parseArchimate(content: string, options: ArchimateImportOptions = {}): HierarchyNode[] {
+  const elementTypes = options.elementTypes ?? ['Capability'];
+  const relationshipTypes = options.relationshipTypes ?? ['Composition', 'Aggregation'];
+
+  const validation = XMLValidator.validate(content);
+  if (validation !== true) {
+    const { msg, line, col } = validation.err;
+    throw new InputError(`Invalid ArchiMate XML at line ${line}, column ${col}: ${msg}`);
+  }
+
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    isArray: name => ARRAY_TAGS.has(name)
+  });
+  const model = parser.parse(content).model as XmlNode | undefined;
+
+  if (!model) {
+    throw new InputError('Input is not an ArchiMate exchange model: missing <model> root element');
+  }
+
+  // Resolve property definition identifiers to their names
+  const propertyNames = new Map<string, string>();
+  (model.propertyDefinitions?.propertyDefinition ?? []).forEach((definition: XmlNode) => {
+    propertyNames.set(
+      definition['@_identifier'],
+      pickText(definition.name, options.language) ?? definition['@_identifier']
+    );
+  });
+
+  const nodes = new Map<string, HierarchyNode>();
+  (model.elements?.element ?? []).forEach((element: XmlNode) => {
+    const type = element['@_type'];
+    if (!elementTypes.includes(type)) return;
+
+    const id = element['@_identifier'];
+    const attributes: Record<string, string> = { type };
+
+    const documentation = pickText(element.documentation, options.language);
+    if (documentation) {
+      attributes.description = documentation;
+    }
+
+    (element.properties?.property ?? []).forEach((property: XmlNode) => {
+      const ref = property['@_propertyDefinitionRef'];
+      const value = pickText(property.value, options.language);
+      if (value !== undefined) {
+        attributes[propertyNames.get(ref) ?? ref] = value;
+      }
+    });
+
+    nodes.set(
+      id,
+      withAttributes({ id, name: pickText(element.name, options.language) ?? id, parent: null }, attributes)
+    );
+  });
+
+  // Assign parents, letting earlier relationship types in the list take priority
+  const parentRank = new Map<string, number>();
+  (model.relationships?.relationship ?? []).forEach((relationship: XmlNode) => {
+    const rank = relationshipTypes.indexOf(relationship['@_type']);
+    if (rank === -1) return;
+
+    const parent = nodes.get(relationship['@_source']);
+    const child = nodes.get(relationship['@_target']);
+    if (!parent || !child || parent === child) return;
+
+    const currentRank = parentRank.get(child.id);
+    if (currentRank === undefined || rank < currentRank) {
+      child.parent = parent.id;
+      parentRank.set(child.id, rank);
+    }
+  });
+
+  return Array.from(nodes.values());
+}
+
+/**
+ * Pick the text of a multilingual element list, preferring the given language
+ *
+ * @param values - Parsed text elements (strings or objects with #text and @_lang)
+ * @param language - Preferred language
+ * @returns The selected text, or undefined if there is none
+ */
+function pickText(values: unknown[] | undefined, language?: string): string | undefined {
+  if (!values || values.length === 0) return undefined;
+
+  const entries = values.map(value =>
+    typeof value === 'object' && value !== null
+      ? { text: String((value as XmlNode)['#text'] ?? ''), lang: (value as XmlNode)['@_lang'] as string | undefined }
+      : { text: String(value), lang: undefined }
+  );
+
+  const preferred = language ? entries.find(entry => entry.lang === language) : undefined;
+  const text = (preferred ?? entries[0]).text.trim();
+
+  return text || undefined;
+}
@@ -0,0 +1,108 @@
+import { HierarchyNode, NodePropertyValue } from '../types/index.js';
+import { InputError, errorMessage } from '../errors/index.js';
+
+/**
+ * Parse JSON input text
+ *
+ * @param content - JSON text
+ * @returns The parsed value
+ * @throws InputError if the text is not valid JSON
+ */
+export function parseJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new InputError(`Invalid JSON: ${errorMessage(error)}`, { cause: error });
+  }
+}
+
+/**
+ * Convert a display name into an identifier-friendly slug
+ *
+ * @param name - Display name to convert
+ * @returns Lowercase slug with runs of characters other than (Unicode) letters and digits
+ * replaced by hyphens
+ */
+export function slugify(name: string): string {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return slug || 'node';
+}
+
+/**
+ * Generate a deterministic node ID from the names along a hierarchy path
+ *
+ * @param names - Names from the root down to the node
+ * @returns ID made of the slugified names joined with '/'
+ */
+export function pathToId(names: string[]): string {
+  return names.map(slugify).join('/');
+}
+
+/**
+ * Make a generated ID unique by appending a numeric suffix (`-2`, `-3`, ...) if it is
+ * already used, for instance by a sibling whose name produces the same slug
+ *
+ * @param id - Generated ID
+ * @param usedIds - IDs generated so far; the returned ID is added to it
+ * @returns The ID, or the ID with the first free suffix
+ */
+export function uniqueId(id: string, usedIds: Set<string>): string {
+  let candidate = id;
+  for (let suffix = 2; usedIds.has(candidate); suffix++) {
+    candidate = `${id}-${suffix}`;
+  }
+
+  usedIds.add(candidate);
+  return candidate;
+}
+
+// Attributes that must never be overwritten by imported extras
+const RESERVED_KEYS = new Set(['id', 'name', 'parent']);
+
+/**
+ * Split a delimited tag list such as "regulatory; customer-facing"
+ *
+ * @param value - Tags separated by commas or semicolons
+ * @returns Trimmed, non-empty tags
+ */
+export function splitTags(value: string): string[] {
+  return value
+    .split(/[,;]/)
+    .map(tag => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Attach extra imported attributes to a node.
+ * `description`, `tags` and a numeric `order` map onto the node fields of the
+ * same name; everything else is stored in the node's `properties`.
+ *
+ * @param node - Node to extend
+ * @param attributes - Additional attributes read from the source
+ * @returns The same node with the attributes merged in
+ */
+export function withAttributes(
+  node: HierarchyNode,
+  attributes: Record<string, NodePropertyValue>
+): HierarchyNode {
+  Object.entries(attributes).forEach(([key, value]) => {
+    if (RESERVED_KEYS.has(key)) return;
+
+    if (key === 'description') {
+      node.description = String(value);
+    } else if (key === 'tags') {
+      node.tags = [...(node.tags ?? []), ...splitTags(String(value))];
+    } else if (key === 'order' && value !== '' && Number.isFinite(Number(value))) {
+      node.order = Number(value);
+    } else {
+      node.properties = { ...node.properties, [key]: value };
+    }
+  });
+
+  return node;
+}
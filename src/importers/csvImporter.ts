@@ -0,0 +1,273 @@
+import { HierarchyNode } from '../types/index.js';
+import { InputError } from '../errors/index.js';
+import { pathToId, withAttributes } from './common.js';
+import { buildPathHierarchy } from './pathImporter.js';
+
+/**
+ * Options for importing CSV/TSV hierarchy data
+ */
+export interface CsvImportOptions {
+  /** Field delimiter (defaults to ',') */
+  delimiter?: string;
+
+  /** Column holding the node ID */
+  idColumn?: string;
+
+  /** Column holding the display name */
+  nameColumn?: string;
+
+  /** Column holding the parent node ID (empty for root nodes) */
+  parentColumn?: string;
+
+  /**
+   * Columns holding one hierarchy level each (e.g. L1, L2, L3), with one row per leaf.
+   * When set, the id/name/parent columns are ignored and parent links are derived
+   * from the level values.
+   */
+  levelColumns?: string[];
+
+  /**
+   * Column holding each node's path (e.g. "Channels/Digital/Open Banking").
+   * When set, the id/name/parent columns are ignored and intermediate nodes
+   * are created from the paths.
+   */
+  pathColumn?: string;
+
+  /** Separator between path segments in the path column (defaults to '/') */
+  pathSeparator?: string;
+
+  /** Extra columns to copy onto the nodes (defaults to every unmapped column) */
+  extraColumns?: string[];
+}
+
+/**
+ * Split delimited text into rows of fields.
+ * Supports quoted fields containing delimiters, line breaks and doubled quotes.
+ *
+ * @param content - Raw CSV/TSV text
+ * @param delimiter - Field delimiter
+ * @returns Rows of raw field values
+ */
+export function parseDelimited(content: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark, which spreadsheet exports commonly add
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new InputError('Unterminated quoted field in delimited input');
+  }
+
+  // Flush the last row if the input does not end with a newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop rows that are entirely empty
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * Import hierarchy nodes from CSV/TSV text
+ *
+ * @param content - Raw CSV/TSV text with a header row
+ * @param options - Column mapping options
+ * @returns Flat array of hierarchy nodes
+ * @throws InputError if required columns are missing or a row is incomplete
+ */
+export function parseCsv(content: string, options: CsvImportOptions = {}): HierarchyNode[] {
+  const rows = parseDelimited(content, options.delimiter ?? ',');
+
+  if (rows.length === 0) {
+    throw new InputError('Delimited input is empty');
+  }
+
+  const header = rows[0].map(column => column.trim());
+  const records = rows.slice(1);
+
+  const columnIndex = (column: string): number => {
+    const index = header.indexOf(column);
+    if (index === -1) {
+      throw new InputError(`Column "${column}" not found in header: ${header.join(', ')}`);
+    }
+    return index;
+  };
+
+  if (options.pathColumn) {
+    const pathIndex = columnIndex(options.pathColumn);
+    const extraIndexes = resolveExtraColumns(header, [options.pathColumn], options.extraColumns);
+    return buildPathHierarchy(
+      records.map((record, index) => ({
+        record: { ...readExtras(record, extraIndexes), path: record[pathIndex] ?? '' },
+        location: `Row ${index + 2}`
+      })),
+      { separator: options.pathSeparator }
+    );
+  }
+
+  if (options.levelColumns && options.levelColumns.length > 0) {
+    const levelIndexes = options.levelColumns.map(columnIndex);
+    const extraIndexes = resolveExtraColumns(header, options.levelColumns, options.extraColumns);
+    return importLevelRows(records, levelIndexes, extraIndexes);
+  }
+
+  const idIndex = columnIndex(options.idColumn ?? 'id');
+  const nameIndex = columnIndex(options.nameColumn ?? 'name');
+  const parentIndex = columnIndex(options.parentColumn ?? 'parent');
+  const extraIndexes = resolveExtraColumns(
+    header,
+    [header[idIndex], header[nameIndex], header[parentIndex]],
+    options.extraColumns
+  );
+
+  return records.map((record, index) => {
+    // Header is row 1, so records start at row 2
+    const rowNumber = index + 2;
+    const id = (record[idIndex] ?? '').trim();
+    const name = (record[nameIndex] ?? '').trim();
+    const parent = (record[parentIndex] ?? '').trim();
+
+    if (!id) {
+      throw new InputError(`Row ${rowNumber} is missing an id`);
+    }
+
+    const node: HierarchyNode = { id, name, parent: parent || null };
+    return withAttributes(node, readExtras(record, extraIndexes));
+  });
+}
+
+/**
+ * Build nodes from rows that list one hierarchy level per column
+ *
+ * @param records - Data rows (without header)
+ * @param levelIndexes - Column indexes of the levels, outermost first
+ * @param extraIndexes - Extra columns to attach to the deepest node of each row
+ * @returns Flat array of hierarchy nodes
+ */
+function importLevelRows(
+  records: string[][],
+  levelIndexes: number[],
+  extraIndexes: Map<string, number>
+): HierarchyNode[] {
+  const nodes = new Map<string, HierarchyNode>();
+  // Level values behind each ID, to detect different values that slugify to the same ID
+  const namePaths = new Map<string, string>();
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 2;
+    const path: string[] = [];
+
+    for (const levelIndex of levelIndexes) {
+      const value = (record[levelIndex] ?? '').trim();
+      if (!value) break;
+      path.push(value);
+    }
+
+    if (path.length === 0) {
+      throw new InputError(`Row ${rowNumber} has no value in the first level column`);
+    }
+
+    path.forEach((name, depth) => {
+      const id = pathToId(path.slice(0, depth + 1));
+      const namePath = JSON.stringify(path.slice(0, depth + 1));
+      const existing = namePaths.get(id);
+
+      if (existing === undefined) {
+        namePaths.set(id, namePath);
+        nodes.set(id, {
+          id,
+          name,
+          parent: depth === 0 ? null : pathToId(path.slice(0, depth))
+        });
+      } else if (existing !== namePath) {
+        throw new InputError(`Row ${rowNumber}: "${name}" produces the same id "${id}" as a different level value`);
+      }
+    });
+
+    const leaf = nodes.get(pathToId(path));
+    if (leaf) {
+      withAttributes(leaf, readExtras(record, extraIndexes));
+    }
+  });
+
+  return Array.from(nodes.values());
+}
+
+/**
+ * Determine which columns are copied as extra node attributes
+ *
+ * @param header - Header row
+ * @param mapped - Columns already mapped to node fields
+ * @param requested - Explicitly requested extra columns, if any
+ * @returns Map of attribute name to column index
+ */
+function resolveExtraColumns(
+  header: string[],
+  mapped: string[],
+  requested?: string[]
+): Map<string, number> {
+  const extras = new Map<string, number>();
+  const columns = requested ?? header.filter(column => column && !mapped.includes(column));
+
+  columns.forEach(column => {
+    const index = header.indexOf(column);
+    if (index === -1) {
+      throw new InputError(`Column "${column}" not found in header: ${header.join(', ')}`);
+    }
+    extras.set(column, index);
+  });
+
+  return extras;
+}
+
+/**
+ * Read the non-empty extra attribute values from a record
+ */
+function readExtras(record: string[], extraIndexes: Map<string, number>): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  extraIndexes.forEach((index, column) => {
+    const value = (record[index] ?? '').trim();
+    if (value) {
+      attributes[column] = value;
+    }
+  });
+
+  return attributes;
+}
@@ -0,0 +1,130 @@
+export * from './common.js';
+export * from './csvImporter.js';
+export * from './nestedImporter.js';
+export * from './outlineImporter.js';
+export * from './pathImporter.js';
+export * from './mermaidImporter.js';
+export * from './opmlImporter.js';
+export * from './yamlImporter.js';
+export * from './archimateImporter.js';
+export * from './skosImporter.js';
+
+import { HierarchyNode, InputFormat, NestedHierarchyNode } from '../types/index.js';
+import { InputError } from '../errors/index.js';
+import { parseJson } from './common.js';
+import { CsvImportOptions, parseCsv } from './csvImporter.js';
+import { isNestedTree, parseNestedTree } from './nestedImporter.js';
+import { OutlineImportOptions, parseOutline } from './outlineImporter.js';
+import { PathImportOptions, parsePaths } from './pathImporter.js';
+import { parseMermaidMindmap } from './mermaidImporter.js';
+import { parseOpml } from './opmlImporter.js';
+import { parseYaml } from './yamlImporter.js';
+import { ArchimateImportOptions, parseArchimate } from './archimateImporter.js';
+import { SkosImportOptions, parseSkos } from './skosImporter.js';
+
+/**
+ * Format-specific options for importing hierarchy data
+ */
+export interface ImportOptions {
+  /** Column mapping for CSV/TSV input */
+  csv?: CsvImportOptions;
+  
+  /** Options for indented outline / Markdown list input */
+  outline?: OutlineImportOptions;
+  
+  /** Separator for path-string input */
+  paths?: PathImportOptions;
+  
+  /** Element and relationship selection for ArchiMate exchange files */
+  archimate?: ArchimateImportOptions;
+  
+  /** Label language and multiple-parent policy for SKOS taxonomies */
+  skos?: SkosImportOptions;
+}
+
+// File extensions recognised for each input format
+const EXTENSION_FORMATS: Record<string, InputFormat> = {
+  '.json': 'json',
+  '.csv': 'csv',
+  '.tsv': 'tsv',
+  '.tab': 'tsv',
+  '.md': 'outline',
+  '.markdown': 'outline',
+  '.txt': 'outline',
+  '.paths': 'paths',
+  '.mmd': 'mermaid',
+  '.mermaid': 'mermaid',
+  '.opml': 'opml',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.xml': 'archimate',
+  '.ttl': 'skos',
+  '.jsonld': 'skos'
+};
+
+/**
+ * Infer the input format from a file path
+ *
+ * @param filePath - Path or file name of the input
+ * @returns The detected input format, defaulting to JSON
+ */
+export function detectInputFormat(filePath: string): InputFormat {
+  const match = /\.[^./\\]+$/.exec(filePath.toLowerCase());
+  return (match && EXTENSION_FORMATS[match[0]]) || 'json';
+}
+
+/**
+ * Parse raw input text into hierarchy nodes
+ *
+ * @param content - Raw input text
+ * @param format - Format of the input text
+ * @param options - Format-specific import options
+ * @returns Flat array of hierarchy nodes
+ * @throws InputError if the text cannot be parsed in the given format
+ */
+export function parseInput(
+  content: string,
+  format: InputFormat,
+  options: ImportOptions = {}
+): HierarchyNode[] {
+  switch (format) {
+    case 'json': {
+      // Flat node lists and nested trees share the JSON format
+      const data = parseJson(content);
+      return isNestedTree(data) ? parseNestedTree(data as NestedHierarchyNode[]) : data as HierarchyNode[];
+    }
+
+    case 'nested':
+      return parseNestedTree(parseJson(content) as NestedHierarchyNode[]);
+
+    case 'csv':
+      return parseCsv(content, options.csv);
+
+    case 'tsv':
+      return parseCsv(content, { delimiter: '\t', ...options.csv });
+
+    case 'outline':
+      return parseOutline(content, options.outline);
+
+    case 'paths':
+      return parsePaths(content, options.paths);
+
+    case 'mermaid':
+      return parseMermaidMindmap(content);
+
+    case 'opml':
+      return parseOpml(content);
+
+    case 'yaml':
+      return parseYaml(content);
+
+    case 'archimate':
+      return parseArchimate(content, options.archimate);
+
+    case 'skos':
+      return parseSkos(content, options.skos);
+
+    default:
+      throw new InputError(`Unsupported input format: ${format}`);
+  }
+}
@@ -0,0 +1,133 @@
+import { HierarchyNode } from '../types/index.js';
+import { InputError } from '../errors/index.js';
+import { pathToId, withAttributes } from './common.js';
+
+/**
+ * Mermaid mindmap node shapes, with their delimiters.
+ * Longer delimiters come first so `((circle))` is not read as `(rounded)`.
+ */
+const SHAPES: { shape: string; open: string; close: string }[] = [
+  { shape: 'circle', open: '((', close: '))' },
+  { shape: 'bang', open: '))', close: '((' },
+  { shape: 'hexagon', open: '{{', close: '}}' },
+  { shape: 'cloud', open: ')', close: '(' },
+  { shape: 'square', open: '[', close: ']' },
+  { shape: 'rounded', open: '(', close: ')' }
+];
+
+// Matches a fenced ```mermaid code block in Markdown
+const FENCE_PATTERN = /```mermaid[^\n]*\n([\s\S]*?)```/g;
+
+/**
+ * Parse a Mermaid `mindmap` diagram into hierarchy nodes.
+ * The diagram may be given on its own or inside a fenced ```mermaid block in
+ * Markdown. Nesting follows indentation; IDs are generated from the name path.
+ * Node shapes, `::icon()` and `:::class` decorations are kept as the `shape`,
+ * `icon` and `class` properties.
+ *
+ * @param content - Mermaid source or Markdown containing a mindmap block
+ * @returns Flat array of hierarchy nodes
+ * @throws InputError with the line number if the mindmap cannot be read
+ */
+export function parseMermaidMindmap(content: string): HierarchyNode[] {
+  const { source, firstLine } = extractMindmap(content);
+  const nodes: HierarchyNode[] = [];
+
+  // Open nodes along the current path, with their indentation widths
+  const stack: { indent: number; name: string }[] = [];
+  let headerSeen = false;
+
+  source.split(/\r?\n/).forEach((line, index) => {
+    const lineNumber = firstLine + index;
+    const text = line.trim();
+    if (text === '' || text.startsWith('%%')) return;
+
+    if (!headerSeen) {
+      if (text !== 'mindmap') {
+        throw new InputError(`Line ${lineNumber}: expected a "mindmap" diagram`);
+      }
+      headerSeen = true;
+      return;
+    }
+
+    const last = nodes[nodes.length - 1];
+
+    // Decorations apply to the node on the previous line
+    const icon = /^::icon\((.*)\)$/.exec(text);
+    if (icon || text.startsWith(':::')) {
+      if (!last) {
+        throw new InputError(`Line ${lineNumber}: decoration without a preceding node`);
+      }
+      withAttributes(last, icon ? { icon: icon[1].trim() } : { class: text.slice(3).trim() });
+      return;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+
+    const { name, shape } = parseNodeText(text);
+    if (!name) {
+      throw new InputError(`Line ${lineNumber}: node has no text`);
+    }
+
+    const parentPath = stack.map(entry => entry.name);
+    stack.push({ indent, name });
+
+    const node: HierarchyNode = {
+      id: pathToId([...parentPath, name]),
+      name,
+      parent: parentPath.length === 0 ? null : pathToId(parentPath)
+    };
+    nodes.push(shape ? withAttributes(node, { shape }) : node);
+  });
+
+  if (!headerSeen) {
+    throw new InputError('Input does not contain a Mermaid mindmap');
+  }
+
+  return nodes;
+}
+
+/**
+ * Find the mindmap source, unwrapping it from a Markdown code fence if needed
+ */
+function extractMindmap(content: string): { source: string; firstLine: number } {
+  for (const match of content.matchAll(FENCE_PATTERN)) {
+    if (/^\s*(%%.*\n\s*)*mindmap\b/.test(match[1])) {
+      const offset = (match.index ?? 0) + match[0].indexOf('\n') + 1;
+      return { source: match[1], firstLine: content.slice(0, offset).split('\n').length };
+    }
+  }
+
+  return { source: content, firstLine: 1 };
+}
+
+/**
+ * Split a node line into its display text and shape
+ */
+function parseNodeText(text: string): { name: string; shape?: string } {
+  for (const { shape, open, close } of SHAPES) {
+    const start = text.indexOf(open);
+    // Node IDs precede the shape without whitespace or other delimiters
+    if (start === -1 || /[\s()[\]{}]/.test(text.slice(0, start)) || !text.endsWith(close)) continue;
+
+    return { name: cleanText(text.slice(start + open.length, text.length - close.length)), shape };
+  }
+
+  return { name: cleanText(text) };
+}
+
+/**
+ * Strip quotes, Markdown string backticks and line breaks from node text
+ */
+function cleanText(text: string): string {
+  return text
+    .trim()
+    .replace(/^"(.*)"$/, '$1')
+    .replace(/^`(.*)`$/, '$1')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
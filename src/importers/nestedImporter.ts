@@ -0,0 +1,136 @@
+import { HierarchyNode, NestedHierarchyNode, NodePropertyValue } from '../types/index.js';
+import { InputError } from '../errors/index.js';
+import { pathToId, uniqueId, withAttributes } from './common.js';
+
+// Keys with a dedicated meaning in nested input; other scalar fields become properties
+const KNOWN_KEYS = new Set(['id', 'name', 'parent', 'children', 'description', 'tags', 'properties', 'order']);
+
+/**
+ * Check whether parsed JSON looks like nested tree input rather than a flat node list.
+ * A list is nested if a node has children, or if no node has an ID and every node has a
+ * name and no parent (a list of leaf trees such as `[{ "name": "A" }, { "name": "B" }]`).
+ *
+ * @param data - Parsed JSON value
+ * @returns True if the data is a nested tree (or a list of them)
+ */
+export function isNestedTree(data: unknown): boolean {
+  if (Array.isArray(data)) {
+    if (data.some(item => isObject(item) && Array.isArray(item.children))) return true;
+
+    return data.length > 0 && data.every(
+      item => isObject(item) && !('id' in item) && !('parent' in item) && typeof item.name === 'string'
+    );
+  }
+
+  return isObject(data) && (Array.isArray(data.children) || !('parent' in data));
+}
+
+/**
+ * Normalize nested tree input into a flat array of hierarchy nodes.
+ * Missing IDs are generated from the path of names leading to the node, with a numeric
+ * suffix if another node already has the generated ID.
+ *
+ * @param data - A nested root node or an array of nested root nodes
+ * @returns Flat array of hierarchy nodes
+ * @throws InputError pointing to the JSON path of the first invalid node, or of a repeated
+ *   explicit ID
+ */
+export function parseNestedTree(data: NestedHierarchyNode | NestedHierarchyNode[]): HierarchyNode[] {
+  const nodes: HierarchyNode[] = [];
+  // JSON path of the node behind each ID, and every ID used so far
+  const seenPaths = new Map<string, string>();
+  const usedIds = new Set<string>();
+
+  function visit(value: unknown, jsonPath: string, names: string[], parent: string | null): void {
+    if (!isObject(value)) {
+      throw new InputError(`Invalid node at ${jsonPath}: expected an object`);
+    }
+
+    if (typeof value.name !== 'string' || value.name.trim() === '') {
+      throw new InputError(`Invalid node at ${jsonPath}: "name" must be a non-empty string`);
+    }
+
+    if (value.id !== undefined && (typeof value.id !== 'string' || value.id.trim() === '')) {
+      throw new InputError(`Invalid node at ${jsonPath}: "id" must be a non-empty string`);
+    }
+
+    if (value.children !== undefined && !Array.isArray(value.children)) {
+      throw new InputError(`Invalid node at ${jsonPath}: "children" must be an array`);
+    }
+
+    if (value.description !== undefined && typeof value.description !== 'string') {
+      throw new InputError(`Invalid node at ${jsonPath}: "description" must be a string`);
+    }
+
+    if (
+      value.tags !== undefined &&
+      (!Array.isArray(value.tags) || value.tags.some(tag => typeof tag !== 'string'))
+    ) {
+      throw new InputError(`Invalid node at ${jsonPath}: "tags" must be an array of strings`);
+    }
+
+    if (value.properties !== undefined && !isObject(value.properties)) {
+      throw new InputError(`Invalid node at ${jsonPath}: "properties" must be an object`);
+    }
+
+    if (value.order !== undefined && (typeof value.order !== 'number' || !Number.isFinite(value.order))) {
+      throw new InputError(`Invalid node at ${jsonPath}: "order" must be a number`);
+    }
+
+    const namePath = [...names, value.name];
+    const explicitId = value.id as string | undefined;
+
+    const duplicatePath = explicitId === undefined ? undefined : seenPaths.get(explicitId);
+    if (duplicatePath) {
+      throw new InputError(
+        `Invalid node at ${jsonPath}: duplicate id "${explicitId}" (first used at ${duplicatePath})`,
+        { nodeIds: [explicitId as string] }
+      );
+    }
+
+    const id = explicitId ?? uniqueId(pathToId(namePath), usedIds);
+    usedIds.add(id);
+    seenPaths.set(id, jsonPath);
+
+    const node: HierarchyNode = { id, name: value.name, parent };
+    if (value.description !== undefined) node.description = value.description as string;
+    if (value.tags !== undefined) node.tags = [...(value.tags as string[])];
+    if (value.properties !== undefined) {
+      node.properties = { ...(value.properties as HierarchyNode['properties']) };
+    }
+    if (value.order !== undefined) node.order = value.order as number;
+
+    nodes.push(withAttributes(node, readAttributes(value)));
+
+    const children = (value.children as unknown[] | undefined) ?? [];
+    children.forEach((child, index) => visit(child, `${jsonPath}.children[${index}]`, namePath, id));
+  }
+
+  if (Array.isArray(data)) {
+    data.forEach((root, index) => visit(root, `$[${index}]`, [], null));
+  } else {
+    visit(data, '$', [], null);
+  }
+
+  return nodes;
+}
+
+/**
+ * Collect the other scalar fields of a nested node as properties
+ */
+function readAttributes(value: Record<string, unknown>): Record<string, NodePropertyValue> {
+  const attributes: Record<string, NodePropertyValue> = {};
+
+  Object.entries(value).forEach(([key, field]) => {
+    if (KNOWN_KEYS.has(key)) return;
+    if (typeof field === 'string' || typeof field === 'number' || typeof field === 'boolean') {
+      attributes[key] = field;
+    }
+  });
+
+  return attributes;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
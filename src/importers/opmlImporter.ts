@@ -0,0 +1,76 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { HierarchyNode, NodePropertyValue } from '../types/index.js';
+import { InputError } from '../errors/index.js';
+import { pathToId, withAttributes } from './common.js';
+
+type XmlNode = Record<string, any>;
+
+// Attribute prefix used by the XML parser
+const ATTRIBUTE_PREFIX = '@_';
+
+/**
+ * Import a hierarchy from an OPML outline, as exported by outliner tools.
+ * Each `<outline>` element becomes a node named by its `text` (or `title`)
+ * attribute; IDs are generated from the name path. The `_note` attribute
+ * becomes the description, `category` the tags, and all other attributes
+ * (e.g. `type`, `url`, `_status`) are kept as node properties.
+ *
+ * @param content - OPML document
+ * @returns Flat array of hierarchy nodes
+ * @throws InputError if the XML is malformed or has no OPML body
+ */
+export function parseOpml(content: string): HierarchyNode[] {
+  const validation = XMLValidator.validate(content);
+  if (validation !== true) {
+    const { msg, line, col } = validation.err;
+    throw new InputError(`Invalid OPML at line ${line}, column ${col}: ${msg}`);
+  }
+
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: ATTRIBUTE_PREFIX,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    isArray: name => name === 'outline'
+  });
+  const body = parser.parse(content).opml?.body as XmlNode | undefined;
+
+  if (body === undefined) {
+    throw new InputError('Input is not an OPML document: missing <opml> or <body> element');
+  }
+
+  const nodes: HierarchyNode[] = [];
+
+  const visit = (outline: XmlNode, parentPath: string[]) => {
+    const name = String(outline[`${ATTRIBUTE_PREFIX}text`] ?? outline[`${ATTRIBUTE_PREFIX}title`] ?? '').trim();
+    const namePath = [...parentPath, name];
+
+    const attributes: Record<string, NodePropertyValue> = {};
+    Object.entries(outline).forEach(([key, value]) => {
+      if (!key.startsWith(ATTRIBUTE_PREFIX)) return;
+
+      const attribute = key.slice(ATTRIBUTE_PREFIX.length);
+      if (attribute === 'text' || (attribute === 'title' && !outline[`${ATTRIBUTE_PREFIX}text`])) return;
+
+      if (attribute === '_note') {
+        attributes.description = String(value);
+      } else if (attribute === 'category') {
+        attributes.tags = String(value);
+      } else {
+        attributes[attribute] = String(value);
+      }
+    });
+
+    nodes.push(withAttributes({
+      id: pathToId(namePath),
+      name,
+      parent: parentPath.length === 0 ? null : pathToId(parentPath)
+    }, attributes));
+
+    ((outline.outline as XmlNode[] | undefined) ?? []).forEach(child => visit(child, namePath));
+  };
+
+  ((body.outline as XmlNode[] | undefined) ?? []).forEach(outline => visit(outline, []));
+
+  return nodes;
+}
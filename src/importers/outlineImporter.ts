@@ -0,0 +1,108 @@
+import { HierarchyNode } from '../types/index.js';
+import { InputError } from '../errors/index.js';
+import { slugify, uniqueId } from './common.js';
+
+/**
+ * Options for parsing indented outlines
+ */
+export interface OutlineImportOptions {
+  /** Treat Markdown `#` headings as hierarchy levels (defaults to true) */
+  headings?: boolean;
+}
+
+// Matches Markdown headings such as "## Digital Channels"
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+// Matches list markers: "-", "*", "+" or numbered items like "1." / "1)"
+const BULLET_PATTERN = /^(?:[-*+]|\d+[.)])\s+/;
+
+/**
+ * Parse an indented outline or Markdown bullet list into hierarchy nodes.
+ * Nesting is derived from indentation (spaces or tabs, not mixed), and
+ * optionally from `#` heading levels. IDs are generated from the name path; siblings
+ * whose names produce the same ID get a numeric suffix.
+ *
+ * @param content - Outline text
+ * @param options - Outline parsing options
+ * @returns Flat array of hierarchy nodes
+ * @throws InputError with the line number if indentation is inconsistent
+ */
+export function parseOutline(content: string, options: OutlineImportOptions = {}): HierarchyNode[] {
+  const useHeadings = options.headings ?? true;
+  const nodes: HierarchyNode[] = [];
+
+  // IDs along the current path, indexed by depth
+  const path: string[] = [];
+  const usedIds = new Set<string>();
+  // Indentation widths of the open list items below the current heading
+  const indentStack: number[] = [];
+  let headingDepth = 0;
+  let indentChar: string | null = null;
+
+  const addNode = (name: string, depth: number, lineNumber: number) => {
+    if (depth > path.length) {
+      throw new InputError(`Line ${lineNumber}: "${name}" is nested more than one level below its parent`);
+    }
+
+    path.length = depth;
+    const parent = depth === 0 ? null : path[depth - 1];
+    const id = uniqueId(parent === null ? slugify(name) : `${parent}/${slugify(name)}`, usedIds);
+    path.push(id);
+
+    nodes.push({ id, name, parent });
+  };
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (line.trim() === '') return;
+
+    const text = line.trimStart();
+    const indent = line.slice(0, line.length - text.length);
+
+    const heading = useHeadings ? HEADING_PATTERN.exec(text) : null;
+    if (heading) {
+      if (indent.length > 0) {
+        throw new InputError(`Line ${lineNumber}: headings must not be indented`);
+      }
+
+      const depth = heading[1].length - 1;
+      addNode(heading[2], depth, lineNumber);
+
+      headingDepth = depth + 1;
+      indentStack.length = 0;
+      return;
+    }
+
+    if (indent.length > 0) {
+      const char = indent[0];
+      if (indent.split('').some(c => c !== char) || (indentChar !== null && indentChar !== char)) {
+        throw new InputError(`Line ${lineNumber}: indentation mixes tabs and spaces`);
+      }
+      indentChar = char;
+    }
+
+    // Close deeper list items until we reach this item's indentation level
+    const width = indent.length;
+    let dedented = false;
+    while (indentStack.length > 0 && width < indentStack[indentStack.length - 1]) {
+      indentStack.pop();
+      dedented = true;
+    }
+
+    if (indentStack.length === 0 || width > indentStack[indentStack.length - 1]) {
+      if (dedented) {
+        throw new InputError(`Line ${lineNumber}: indentation does not match any enclosing item`);
+      }
+      indentStack.push(width);
+    }
+
+    const name = text.replace(BULLET_PATTERN, '').trim();
+    if (!name) {
+      throw new InputError(`Line ${lineNumber}: list item has no text`);
+    }
+
+    addNode(name, headingDepth + indentStack.length - 1, lineNumber);
+  });
+
+  return nodes;
+}
@@ -0,0 +1,207 @@
+import { HierarchyNode, NodePropertyValue } from '../types/index.js';
+import { InputError } from '../errors/index.js';
+import { parseJson, pathToId, withAttributes } from './common.js';
+
+/**
+ * Options for importing path-string hierarchies
+ */
+export interface PathImportOptions {
+  /** Separator between path segments (defaults to '/') */
+  separator?: string;
+}
+
+/**
+ * A node given by its path from the root, plus optional attributes.
+ * Attributes apply to the last node on the path; other scalar fields are
+ * stored as node properties.
+ */
+export interface PathRecord {
+  /** Names from the root down to the node, joined by the separator */
+  path: string;
+
+  /** Longer description (shown as a tooltip) */
+  description?: string;
+
+  /** Tags as an array or a comma/semicolon separated string */
+  tags?: string[] | string;
+
+  /** Additional metadata */
+  properties?: Record<string, NodePropertyValue>;
+
+  /** Position among siblings when sorting by `order` */
+  order?: number;
+
+  [attribute: string]: unknown;
+}
+
+/**
+ * A path record with a description of where it came from, for error messages
+ */
+export interface LocatedPathRecord {
+  /** The path record */
+  record: PathRecord;
+
+  /** Location of the record in the source, e.g. "Line 3" */
+  location: string;
+}
+
+/**
+ * Split a path into its segments.
+ * A backslash escapes the next character, so `\/` is a literal separator
+ * and `\\` a literal backslash.
+ *
+ * @param path - Path such as "Channels/Digital/Open Banking"
+ * @param separator - Separator between segments
+ * @returns Trimmed segments, without empty leading or trailing segments
+ */
+export function splitPath(path: string, separator = '/'): string[] {
+  if (!separator) {
+    throw new InputError('Path separator cannot be empty');
+  }
+
+  const segments: string[] = [];
+  let segment = '';
+
+  for (let i = 0; i < path.length; i++) {
+    if (path[i] === '\\' && i + 1 < path.length) {
+      segment += path[i + 1];
+      i++;
+    } else if (path.startsWith(separator, i)) {
+      segments.push(segment.trim());
+      segment = '';
+      i += separator.length - 1;
+    } else {
+      segment += path[i];
+    }
+  }
+  segments.push(segment.trim());
+
+  // Allow paths written with a leading or trailing separator
+  if (segments.length > 1 && segments[0] === '') segments.shift();
+  if (segments.length > 1 && segments[segments.length - 1] === '') segments.pop();
+
+  return segments;
+}
+
+/**
+ * Import hierarchy nodes from path strings or path records.
+ * Intermediate nodes are created automatically with IDs derived from their path.
+ *
+ * @param records - Paths, or records with a `path` and attributes
+ * @param options - Import options
+ * @returns Flat array of hierarchy nodes
+ * @throws InputError if a path is missing or has empty segments
+ */
+export function pathsToNodes(
+  records: (string | PathRecord)[],
+  options: PathImportOptions = {}
+): HierarchyNode[] {
+  return buildPathHierarchy(
+    records.map((record, index) => ({
+      record: typeof record === 'string' ? { path: record } : record,
+      location: `Record ${index + 1}`
+    })),
+    options
+  );
+}
+
+/**
+ * Parse path-string input: one path per line, or a JSON array of paths and path records.
+ * Blank lines and lines starting with '#' are ignored.
+ *
+ * @param content - Raw input text
+ * @param options - Import options
+ * @returns Flat array of hierarchy nodes
+ */
+export function parsePaths(content: string, options: PathImportOptions = {}): HierarchyNode[] {
+  if (/^\s*\[/.test(content)) {
+    const data = parseJson(content);
+    if (!Array.isArray(data)) {
+      throw new InputError('Path input must be an array of paths or path records');
+    }
+    return pathsToNodes(data, options);
+  }
+
+  const entries: LocatedPathRecord[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    const path = line.trim();
+    if (path && !path.startsWith('#')) {
+      entries.push({ record: { path }, location: `Line ${index + 1}` });
+    }
+  });
+
+  return buildPathHierarchy(entries, options);
+}
+
+/**
+ * Build hierarchy nodes from located path records
+ *
+ * @param entries - Path records with their source locations
+ * @param options - Import options
+ * @returns Flat array of hierarchy nodes, in order of first appearance
+ * @throws InputError naming the location of the offending record
+ */
+export function buildPathHierarchy(
+  entries: LocatedPathRecord[],
+  options: PathImportOptions = {}
+): HierarchyNode[] {
+  const separator = options.separator ?? '/';
+  const nodes = new Map<string, HierarchyNode>();
+  // Name path behind each ID, to detect different paths that slugify to the same ID
+  const namePaths = new Map<string, string>();
+
+  entries.forEach(({ record, location }) => {
+    if (typeof record !== 'object' || record === null || typeof record.path !== 'string') {
+      throw new InputError(`${location} is missing a path`);
+    }
+
+    const names = splitPath(record.path, separator);
+    if (names.some(name => name === '')) {
+      throw new InputError(`${location} has an empty segment in path "${record.path}"`);
+    }
+
+    names.forEach((name, depth) => {
+      const id = pathToId(names.slice(0, depth + 1));
+      const namePath = JSON.stringify(names.slice(0, depth + 1));
+      const existing = namePaths.get(id);
+
+      if (existing === undefined) {
+        namePaths.set(id, namePath);
+        nodes.set(id, { id, name, parent: depth === 0 ? null : pathToId(names.slice(0, depth)) });
+      } else if (existing !== namePath) {
+        throw new InputError(`${location}: path "${record.path}" produces the same id "${id}" as a different path`);
+      }
+    });
+
+    applyRecordAttributes(nodes.get(pathToId(names)) as HierarchyNode, record);
+  });
+
+  return Array.from(nodes.values());
+}
+
+/**
+ * Copy the attributes of a path record onto its node
+ */
+function applyRecordAttributes(node: HierarchyNode, record: PathRecord): void {
+  const { tags, properties, ...rest } = record;
+  const attributes: Record<string, NodePropertyValue> = {};
+
+  if (Array.isArray(tags)) {
+    node.tags = [...(node.tags ?? []), ...tags.map(String)];
+  } else if (typeof tags === 'string') {
+    attributes.tags = tags;
+  }
+
+  if (typeof properties === 'object' && properties !== null && !Array.isArray(properties)) {
+    node.properties = { ...node.properties, ...properties };
+  }
+
+  Object.entries(rest).forEach(([key, value]) => {
+    if (key === 'path') return;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      attributes[key] = value;
+    }
+  });
+
+  withAttributes(node, attributes);
+}
@@ -0,0 +1,304 @@
+import { Parser } from 'n3';
+import { HierarchyNode } from '../types/index.js';
+import { InputError } from '../errors/index.js';
+import { parseJson, withAttributes } from './common.js';
+
+/**
+ * How to handle concepts with more than one broader concept
+ *  - `first`: keep the first broader concept in document order
+ *  - `error`: reject the taxonomy
+ *  - `duplicate`: repeat the concept (and its narrower concepts) under every broader concept
+ */
+export type MultipleParentPolicy = 'first' | 'error' | 'duplicate';
+
+/**
+ * Options for importing SKOS taxonomies
+ */
+export interface SkosImportOptions {
+  /** Serialization of the input (detected from the content if omitted) */
+  syntax?: 'turtle' | 'jsonld';
+
+  /** Preferred language for skos:prefLabel (falls back to an untagged label, then the first one) */
+  language?: string;
+
+  /** Policy for concepts with several broader concepts (defaults to `first`) */
+  multipleParents?: MultipleParentPolicy;
+}
+
+/**
+ * A single RDF statement, with literal objects carrying their language tag
+ */
+interface Triple {
+  subject: string;
+  predicate: string;
+  object: string;
+  language?: string;
+}
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const SKOS = 'http://www.w3.org/2004/02/skos/core#';
+
+/**
+ * Import a SKOS taxonomy (Turtle or JSON-LD) into hierarchy nodes.
+ * Each skos:Concept becomes a node identified by its IRI; skos:broader
+ * (and inverse skos:narrower) links become parent links.
+ *
+ * @param content - Turtle or JSON-LD text
+ * @param options - Import options
+ * @returns Flat array of hierarchy nodes, with definitions as descriptions and notations as properties
+ * @throws InputError if the input cannot be parsed, a JSON-LD context term is cyclic, or a
+ * concept has several broader concepts under the `error` policy
+ */
+export function parseSkos(content: string, options: SkosImportOptions = {}): HierarchyNode[] {
+  const syntax = options.syntax ?? (/^\s*[{[]/.test(content) ? 'jsonld' : 'turtle');
+  const triples = syntax === 'jsonld' ? readJsonLd(content) : readTurtle(content);
+
+  // Collect concepts in document order
+  const concepts: string[] = [];
+  const conceptSet = new Set<string>();
+  const addConcept = (iri: string) => {
+    if (!conceptSet.has(iri)) {
+      conceptSet.add(iri);
+      concepts.push(iri);
+    }
+  };
+
+  const broader = new Map<string, string[]>();
+  const addBroader = (child: string, parent: string) => {
+    const parents = broader.get(child) ?? [];
+    if (!parents.includes(parent)) parents.push(parent);
+    broader.set(child, parents);
+  };
+
+  const labels = new Map<string, Triple[]>();
+  const attributes = new Map<string, Record<string, string>>();
+
+  triples.forEach(triple => {
+    switch (triple.predicate) {
+      case RDF_TYPE:
+        if (triple.object === `${SKOS}Concept`) addConcept(triple.subject);
+        break;
+      case `${SKOS}broader`:
+        addConcept(triple.subject);
+        addConcept(triple.object);
+        addBroader(triple.subject, triple.object);
+        break;
+      case `${SKOS}narrower`:
+        addConcept(triple.subject);
+        addConcept(triple.object);
+        addBroader(triple.object, triple.subject);
+        break;
+      case `${SKOS}prefLabel`:
+        labels.set(triple.subject, [...(labels.get(triple.subject) ?? []), triple]);
+        break;
+      case `${SKOS}definition`:
+      case `${SKOS}notation`: {
+        // Definitions become the node description; notations are kept as a property
+        const key = triple.predicate === `${SKOS}definition` ? 'description' : 'notation';
+        const values = attributes.get(triple.subject) ?? {};
+        if (!values[key] || (options.language && triple.language === options.language)) {
+          values[key] = triple.object;
+        }
+        attributes.set(triple.subject, values);
+        break;
+      }
+    }
+  });
+
+  const createNode = (iri: string, id: string, parent: string | null): HierarchyNode =>
+    withAttributes(
+      { id, name: pickLabel(labels.get(iri) ?? [], options.language) ?? localName(iri), parent },
+      attributes.get(iri) ?? {}
+    );
+
+  const policy = options.multipleParents ?? 'first';
+
+  if (policy !== 'duplicate') {
+    return concepts.map(iri => {
+      const parents = (broader.get(iri) ?? []).filter(parent => conceptSet.has(parent));
+      if (parents.length > 1 && policy === 'error') {
+        throw new InputError(`Concept ${iri} has more than one broader concept: ${parents.join(', ')}`);
+      }
+      return createNode(iri, iri, parents[0] ?? null);
+    });
+  }
+
+  return duplicateMultiParentConcepts(concepts, broader, createNode);
+}
+
+/**
+ * Emit the taxonomy as a tree, repeating concepts under each of their broader concepts.
+ * The first occurrence keeps the concept IRI as its ID; repeats get a `#2`, `#3`... suffix
+ * and record the original IRI in a `concept` attribute.
+ */
+function duplicateMultiParentConcepts(
+  concepts: string[],
+  broader: Map<string, string[]>,
+  createNode: (iri: string, id: string, parent: string | null) => HierarchyNode
+): HierarchyNode[] {
+  const narrower = new Map<string, string[]>();
+  concepts.forEach(iri => {
+    (broader.get(iri) ?? []).forEach(parent => {
+      narrower.set(parent, [...(narrower.get(parent) ?? []), iri]);
+    });
+  });
+
+  const nodes: HierarchyNode[] = [];
+  const occurrences = new Map<string, number>();
+
+  const emit = (iri: string, parentId: string | null, ancestors: string[]) => {
+    if (ancestors.includes(iri)) {
+      throw new InputError(`Circular broader relationship detected: ${[...ancestors, iri].join(' -> ')}`);
+    }
+
+    const count = (occurrences.get(iri) ?? 0) + 1;
+    occurrences.set(iri, count);
+
+    const id = count === 1 ? iri : `${iri}#${count}`;
+    const node = createNode(iri, id, parentId);
+    nodes.push(count === 1 ? node : withAttributes(node, { concept: iri }));
+
+    (narrower.get(iri) ?? []).forEach(child => emit(child, id, [...ancestors, iri]));
+  };
+
+  concepts
+    .filter(iri => (broader.get(iri) ?? []).length === 0)
+    .forEach(root => emit(root, null, []));
+
+  // Concepts that were never reached only have broader concepts inside a cycle
+  const unreached = concepts.find(iri => !occurrences.has(iri));
+  if (unreached) {
+    throw new InputError(`Circular broader relationship detected involving ${unreached}`);
+  }
+
+  return nodes;
+}
+
+/**
+ * Choose the label in the preferred language, then an untagged label, then the first one
+ */
+function pickLabel(labels: Triple[], language?: string): string | undefined {
+  const label =
+    (language && labels.find(triple => triple.language === language)) ||
+    labels.find(triple => !triple.language) ||
+    labels[0];
+
+  return label?.object;
+}
+
+/**
+ * Derive a readable name from the last segment of an IRI
+ */
+function localName(iri: string): string {
+  const match = /[^/#:]+$/.exec(iri);
+  return match ? decodeURIComponent(match[0]) : iri;
+}
+
+/**
+ * Read triples from Turtle text
+ */
+function readTurtle(content: string): Triple[] {
+  try {
+    return new Parser().parse(content).map(quad => ({
+      subject: quad.subject.value,
+      predicate: quad.predicate.value,
+      object: quad.object.value,
+      language: quad.object.termType === 'Literal' ? quad.object.language || undefined : undefined
+    }));
+  } catch (error) {
+    throw new InputError(`Invalid Turtle: ${(error as Error).message}`, { cause: error });
+  }
+}
+
+/**
+ * Read triples from compacted JSON-LD.
+ * Supports prefix and term definitions in an inline `@context`, `@graph`,
+ * `@id`/`@type`, value objects, language maps and nested node objects.
+ * Remote contexts are not fetched.
+ */
+function readJsonLd(content: string): Triple[] {
+  const triples: Triple[] = [];
+  const data = parseJson(content) as any;
+  const context: Record<string, any> = {};
+
+  const addContext = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(addContext);
+    } else if (value && typeof value === 'object') {
+      Object.assign(context, value);
+    }
+  };
+
+  const expand = (term: string, visited: Set<string> = new Set()): string => {
+    const definition = context[term];
+    const target = typeof definition === 'string'
+      ? definition
+      : definition && typeof definition === 'object' && definition['@id'];
+
+    if (typeof target === 'string') {
+      // A term that maps back to itself would otherwise expand forever
+      if (visited.has(term)) {
+        throw new InputError(`JSON-LD context term "${term}" has a cyclic definition`);
+      }
+      visited.add(term);
+      return expand(target, visited);
+    }
+
+    const separator = term.indexOf(':');
+    if (separator > 0) {
+      const prefix = context[term.slice(0, separator)];
+      if (typeof prefix === 'string') return prefix + term.slice(separator + 1);
+    }
+
+    return term;
+  };
+
+  const visit = (node: Record<string, any>): string | undefined => {
+    addContext(node['@context']);
+    const subject = node['@id'] ? expand(node['@id']) : undefined;
+
+    Object.entries(node).forEach(([key, value]) => {
+      if (key === '@id' || key === '@context') return;
+
+      if (key === '@graph') {
+        toArray(value).forEach(visit);
+        return;
+      }
+
+      if (!subject) return;
+
+      const predicate = key === '@type' ? RDF_TYPE : expand(key);
+      const definition = context[key];
+      const isReference = key === '@type' || (definition && definition['@type'] === '@id');
+
+      if (definition && definition['@container'] === '@language' && value && typeof value === 'object') {
+        Object.entries(value).forEach(([language, text]) => {
+          toArray(text).forEach(item => triples.push({ subject, predicate, object: String(item), language }));
+        });
+        return;
+      }
+
+      toArray(value).forEach(item => {
+        if (item && typeof item === 'object') {
+          if ('@value' in item) {
+            triples.push({ subject, predicate, object: String(item['@value']), language: item['@language'] });
+          } else {
+            const object = visit(item);
+            if (object) triples.push({ subject, predicate, object });
+          }
+        } else {
+          triples.push({ subject, predicate, object: isReference ? expand(String(item)) : String(item) });
+        }
+      });
+    });
+
+    return subject;
+  };
+
+  toArray(data).forEach(visit);
+  return triples;
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
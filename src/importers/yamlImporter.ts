@@ -0,0 +1,341 @@
+import { Document, LineCounter, parseDocument } from 'yaml';
+import { DiagramConfig, DiagramDocument, DiagramOptions, FilterMode, HierarchyNode, OrphanPolicy } from '../types/index.js';
+import { DEFAULT_LAYOUT_OPTIONS, DEFAULT_STYLE_OPTIONS } from '../config/index.js';
+import { findOutputFormat, listOutputFormats } from '../output/index.js';
+import { parseFilterExpression } from '../core/filter.js';
+import { InputError } from '../errors/index.js';
+import { isNestedTree, parseNestedTree } from './nestedImporter.js';
+
+// Top-level keys allowed in a diagram document
+const DOCUMENT_KEYS = new Set([
+  'nodes', 'layout', 'style', 'format', 'formatOptions', 'outputPath', 'orphanPolicy', 'orphanRootName',
+  'focus', 'maxDepth', 'breadcrumb', 'filter', 'filterMode'
+]);
+
+// Keys allowed in a configuration profile, and at the top level of a configuration file
+const PROFILE_KEYS = new Set([
+  'layout', 'style', 'format', 'formatOptions', 'orphanPolicy', 'orphanRootName', 'focus', 'maxDepth', 'breadcrumb',
+  'filter', 'filterMode'
+]);
+const CONFIG_KEYS = new Set([...PROFILE_KEYS, 'profiles']);
+
+const ORPHAN_POLICIES: OrphanPolicy[] = ['error', 'drop', 'promote-to-root', 'attach-to'];
+
+const FILTER_MODES: FilterMode[] = ['hide', 'dim'];
+
+type YamlPath = (string | number)[];
+
+/**
+ * Parse a YAML (or JSON) diagram document.
+ * The document is either a plain node list / nested tree, or a mapping that
+ * bundles `nodes` with `layout`, `style`, `format`, `formatOptions`, `outputPath`,
+ * `orphanPolicy`, `orphanRootName`, `focus`, `maxDepth`, `breadcrumb`, `filter`
+ * and `filterMode` options.
+ *
+ * @param content - YAML text
+ * @returns The hierarchy nodes and the diagram options declared in the document
+ * @throws InputError with the line and column of the offending entry
+ */
+export function parseDiagramDocument(content: string): DiagramDocument {
+  const { data, locate } = readYamlDocument(content);
+
+  if (!isMapping(data) || !('nodes' in data)) {
+    return { nodes: readNodes(data, [], locate), options: {} };
+  }
+
+  Object.keys(data).forEach(key => {
+    if (!DOCUMENT_KEYS.has(key)) {
+      throw new InputError(`Unknown document key "${key}"${locate([key])}`);
+    }
+  });
+
+  return {
+    nodes: readNodes(data.nodes, ['nodes'], locate),
+    options: readOptions(data, [], locate)
+  };
+}
+
+/**
+ * Parse a configuration file (`metis.config.json` or `.metisrc`).
+ * The file is a JSON (or YAML) mapping of diagram options applied to every
+ * diagram, plus a `profiles` mapping of named option sets. Both accept the
+ * keys of a diagram document except `nodes` and `outputPath`.
+ *
+ * @param content - Configuration file text
+ * @returns The default options and the named profiles
+ * @throws InputError with the line and column of the offending entry
+ */
+export function parseDiagramConfig(content: string): DiagramConfig {
+  const { data, locate } = readYamlDocument(content);
+
+  if (!isMapping(data)) {
+    throw new InputError('Invalid configuration: expected a mapping');
+  }
+
+  checkKeys(data, [], CONFIG_KEYS, locate);
+
+  const profiles: Record<string, DiagramOptions> = {};
+
+  if (data.profiles !== undefined) {
+    if (!isMapping(data.profiles)) {
+      throw new InputError(`Invalid profiles${locate(['profiles'])}: expected a mapping`);
+    }
+
+    Object.entries(data.profiles).forEach(([name, profile]) => {
+      const path = ['profiles', name];
+
+      if (!isMapping(profile)) {
+        throw new InputError(`Invalid profile "${name}"${locate(path)}: expected a mapping`);
+      }
+
+      checkKeys(profile, path, PROFILE_KEYS, locate);
+      profiles[name] = readOptions(profile, path, locate);
+    });
+  }
+
+  return { options: readOptions(data, [], locate), profiles };
+}
+
+/**
+ * Parse YAML hierarchy input (a node list, nested tree or diagram document)
+ *
+ * @param content - YAML text
+ * @returns Flat array of hierarchy nodes
+ */
+export function parseYaml(content: string): HierarchyNode[] {
+  return parseDiagramDocument(content).nodes;
+}
+
+/**
+ * Parse YAML text, keeping track of positions for error messages
+ */
+function readYamlDocument(content: string): { data: unknown; locate: (path: YamlPath) => string } {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+
+  if (doc.errors.length > 0) {
+    const error = doc.errors[0];
+    const position = error.linePos ? ` at line ${error.linePos[0].line}, column ${error.linePos[0].col}` : '';
+    throw new InputError(`Invalid YAML${position}: ${error.message.split('\n')[0]}`);
+  }
+
+  return { data: doc.toJS(), locate: (path: YamlPath) => describePosition(doc, lineCounter, path) };
+}
+
+/**
+ * Reject configuration keys that are not in the allowed set
+ */
+function checkKeys(
+  value: Record<string, unknown>,
+  path: YamlPath,
+  allowed: Set<string>,
+  locate: (path: YamlPath) => string
+): void {
+  Object.keys(value).forEach(key => {
+    if (!allowed.has(key)) {
+      throw new InputError(`Unknown config key "${[...path, key].join('.')}"${locate([...path, key])}`);
+    }
+  });
+}
+
+/**
+ * Validate and read the diagram options declared in a mapping
+ */
+function readOptions(
+  data: Record<string, unknown>,
+  path: YamlPath,
+  locate: (path: YamlPath) => string
+): DiagramOptions {
+  const at = (key: string) => locate([...path, key]);
+  const label = (key: string) => [...path, key].join('.');
+
+  if (data.format !== undefined && (typeof data.format !== 'string' || !findOutputFormat(data.format))) {
+    const formats = listOutputFormats().map(format => format.name);
+    throw new InputError(`Invalid ${label('format')} "${data.format}"${at('format')}: expected one of ${formats.join(', ')}`);
+  }
+
+  if (data.formatOptions !== undefined && !isMapping(data.formatOptions)) {
+    throw new InputError(`Invalid ${label('formatOptions')}${at('formatOptions')}: expected a mapping`);
+  }
+
+  if (data.outputPath !== undefined && typeof data.outputPath !== 'string') {
+    throw new InputError(`Invalid ${label('outputPath')}${at('outputPath')}: expected a string`);
+  }
+
+  if (data.orphanPolicy !== undefined && !ORPHAN_POLICIES.includes(data.orphanPolicy as OrphanPolicy)) {
+    throw new InputError(
+      `Invalid ${label('orphanPolicy')} "${data.orphanPolicy}"${at('orphanPolicy')}: expected one of ${ORPHAN_POLICIES.join(', ')}`
+    );
+  }
+
+  if (data.orphanRootName !== undefined && typeof data.orphanRootName !== 'string') {
+    throw new InputError(`Invalid ${label('orphanRootName')}${at('orphanRootName')}: expected a string`);
+  }
+
+  const focus = data.focus;
+  if (focus !== undefined && typeof focus !== 'string' &&
+    !(Array.isArray(focus) && focus.every(id => typeof id === 'string'))) {
+    throw new InputError(`Invalid ${label('focus')}${at('focus')}: expected a node ID or a list of node IDs`);
+  }
+
+  if (data.maxDepth !== undefined && (!Number.isInteger(data.maxDepth) || (data.maxDepth as number) < 0)) {
+    throw new InputError(`Invalid ${label('maxDepth')}${at('maxDepth')}: expected a non-negative integer`);
+  }
+
+  if (data.breadcrumb !== undefined && typeof data.breadcrumb !== 'boolean') {
+    throw new InputError(`Invalid ${label('breadcrumb')}${at('breadcrumb')}: expected a boolean`);
+  }
+
+  if (data.filter !== undefined) {
+    if (typeof data.filter !== 'string') {
+      throw new InputError(`Invalid ${label('filter')}${at('filter')}: expected a filter expression`);
+    }
+    try {
+      parseFilterExpression(data.filter);
+    } catch (error) {
+      throw new InputError(`${(error as Error).message}${at('filter')}`, { cause: error });
+    }
+  }
+
+  if (data.filterMode !== undefined && !FILTER_MODES.includes(data.filterMode as FilterMode)) {
+    throw new InputError(
+      `Invalid ${label('filterMode')} "${data.filterMode}"${at('filterMode')}: expected one of ${FILTER_MODES.join(', ')}`
+    );
+  }
+
+  checkOptionTypes(data.layout, [...path, 'layout'], DEFAULT_LAYOUT_OPTIONS, locate);
+  checkOptionTypes(data.style, [...path, 'style'], DEFAULT_STYLE_OPTIONS, locate);
+
+  return {
+    layout: data.layout as DiagramOptions['layout'],
+    style: data.style as DiagramOptions['style'],
+    format: data.format as string | undefined,
+    formatOptions: data.formatOptions as Record<string, unknown> | undefined,
+    outputPath: data.outputPath as string | undefined,
+    orphanPolicy: data.orphanPolicy as OrphanPolicy | undefined,
+    orphanRootName: data.orphanRootName as string | undefined,
+    focus: focus as string | string[] | undefined,
+    maxDepth: data.maxDepth as number | undefined,
+    breadcrumb: data.breadcrumb as boolean | undefined,
+    filter: data.filter as string | undefined,
+    filterMode: data.filterMode as FilterMode | undefined
+  };
+}
+
+/**
+ * Read the hierarchy nodes from a flat list or nested tree value
+ */
+function readNodes(
+  value: unknown,
+  path: YamlPath,
+  locate: (path: YamlPath) => string
+): HierarchyNode[] {
+  if (isNestedTree(value)) {
+    try {
+      return parseNestedTree(value as Parameters<typeof parseNestedTree>[0]);
+    } catch (error) {
+      // Translate the JSON path reported by the nested parser into a file position
+      const match = /at (\$\S*?):/.exec(String((error as Error).message));
+      throw match
+        ? new InputError(`${(error as Error).message}${locate([...path, ...parseJsonPath(match[1])])}`, { cause: error })
+        : error;
+    }
+  }
+
+  if (!Array.isArray(value)) {
+    throw new InputError(`Expected a list of nodes${locate(path)}`);
+  }
+
+  return value.map((item, index) => {
+    const position = locate([...path, index]);
+
+    if (!isMapping(item)) {
+      throw new InputError(`Invalid node${position}: expected a mapping`);
+    }
+
+    if (typeof item.id !== 'string' || item.id.trim() === '') {
+      throw new InputError(`Invalid node${position}: "id" must be a non-empty string`);
+    }
+
+    if (typeof item.name !== 'string') {
+      throw new InputError(`Invalid node${position}: "name" must be a string`);
+    }
+
+    if (item.parent !== undefined && item.parent !== null && typeof item.parent !== 'string') {
+      throw new InputError(`Invalid node${position}: "parent" must be a string or null`);
+    }
+
+    // A missing parent in YAML means a root node
+    return { ...item, parent: item.parent ?? null } as HierarchyNode;
+  });
+}
+
+/**
+ * Check that option values have the same type as their defaults
+ */
+function checkOptionTypes(
+  value: unknown,
+  path: YamlPath,
+  defaults: Record<string, unknown>,
+  locate: (path: YamlPath) => string
+): void {
+  if (value === undefined) return;
+
+  const group = path.join('.');
+
+  if (!isMapping(value)) {
+    throw new InputError(`Invalid ${group} options${locate(path)}: expected a mapping`);
+  }
+
+  Object.entries(value).forEach(([key, option]) => {
+    if (!(key in defaults)) return;
+
+    const expected = typeof defaults[key];
+    if (typeof option !== expected) {
+      throw new InputError(`Invalid ${group}.${key}${locate([...path, key])}: expected a ${expected}`);
+    }
+  });
+}
+
+/**
+ * Describe the position of the YAML node at the given path
+ */
+function describePosition(doc: Document, lineCounter: LineCounter, path: YamlPath): string {
+  const node = doc.getIn(path, true) as { range?: [number, number, number] } | undefined;
+  const offset = node?.range?.[0] ?? findKeyOffset(doc, path);
+
+  if (offset === undefined) return '';
+
+  const { line, col } = lineCounter.linePos(offset);
+  return ` at line ${line}, column ${col}`;
+}
+
+/**
+ * Find the offset of a mapping key, for paths whose value has no position of its own
+ */
+function findKeyOffset(doc: Document, path: YamlPath): number | undefined {
+  const parent = path.length > 1 ? doc.getIn(path.slice(0, -1), true) : doc.contents;
+  const items = (parent as { items?: { key?: { value?: unknown; range?: number[] } }[] } | null)?.items;
+  const pair = items?.find(item => item.key?.value === path[path.length - 1]);
+
+  return pair?.key?.range?.[0];
+}
+
+/**
+ * Split a JSON path such as `$[0].children[2]` into its segments
+ */
+function parseJsonPath(jsonPath: string): YamlPath {
+  const segments: YamlPath = [];
+  const pattern = /\[(\d+)\]|\.([^.[]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(jsonPath)) !== null) {
+    segments.push(match[1] !== undefined ? Number(match[1]) : match[2]);
+  }
+
+  return segments;
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
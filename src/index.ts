@@ -2,10 +2,14 @@
 // Re-export core functionality
 export * from './types/index.js';
 export * from './core/index.js';
+export * from './importers/index.js';
+export * from './node/directoryImporter.js';
+export * from './node/paletteFile.js';
 export * from './layout/index.js';
 export * from './rendering/index.js';
 export * from './output/index.js';
 export * from './config/index.js';
+export * from './errors/index.js';
 
 // Export browser renderer for direct use in Node.js environment
 export { BrowserDiagramRenderer } from './browser/main.js';
@@ -270,7 +270,7 @@ export class AspectRatioGridLayoutEngine extends LayoutEngine {
         // Fallback if no best config found (shouldn't happen if n > 0)
         if (!bestConfig) {
              const fallbackCols = Math.ceil(Math.sqrt(n));
-              console.warn("Could not find best grid arrangement, using fallback.");
+              this.warn({ code: 'LAYOUT_FALLBACK', message: 'Could not find best grid arrangement, using fallback.' });
              // Recalculate for fallback (simplified version)
              const numRows = Math.ceil(n / fallbackCols);
              const columnWidths = new Array(fallbackCols).fill(0);
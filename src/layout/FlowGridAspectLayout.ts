@@ -304,7 +304,10 @@ export class FlowGridAspectLayout extends LayoutEngine {
 
         // Fallback if no best config found (should not happen if n > 0)
         if (!bestConfig) {
-             console.warn("AspectRatioGridLayoutEngine: Could not find best grid arrangement, using fallback (sqrt).");
+             this.warn({
+               code: 'LAYOUT_FALLBACK',
+               message: 'AspectRatioGridLayoutEngine: Could not find best grid arrangement, using fallback (sqrt).'
+             });
              const fallbackCols = Math.max(1, Math.ceil(Math.sqrt(n))); // Ensure at least 1 column
              const numRows = Math.ceil(n / fallbackCols);
              const columnWidths = new Array(fallbackCols).fill(0);
@@ -1,11 +1,18 @@
-import { TreeNode, LayoutOptions } from '../types/index.js';
+import { TreeNode, LayoutOptions, WarningHandler } from '../types/index.js';
+import { consoleWarningHandler } from '../utils/warnings.js';
 
 /**
  * Abstract base class for layout engines
  */
 export abstract class LayoutEngine {
+  /** Registered name of the engine, e.g. `grid` (the class name if created directly) */
+  name: string = this.constructor.name;
+  
   protected options: Required<LayoutOptions>;
   
+  // Receives diagnostics such as layout fallbacks
+  protected warn: WarningHandler = consoleWarningHandler;
+  
   // Default layout options
   private static readonly DEFAULT_OPTIONS: Required<LayoutOptions> = {
     columns: 2,
@@ -14,7 +21,9 @@ export abstract class LayoutEngine {
     minNodeWidth: 100,
     minNodeHeight: 40,
     targetAspectRatio: 16 / 9,
-    layoutType: 'grid'
+    layoutType: 'grid',
+    sortChildren: 'input',
+    preserveOrder: false
   };
   
   /**
@@ -26,6 +35,17 @@ export abstract class LayoutEngine {
     this.options = { ...LayoutEngine.DEFAULT_OPTIONS, ...options };
   }
   
+  /**
+   * Set the handler that receives diagnostics during layout
+   * 
+   * @param handler - Warning handler
+   * @returns This engine, for chaining
+   */
+  setWarningHandler(handler: WarningHandler): this {
+    this.warn = handler;
+    return this;
+  }
+  
   /**
    * Calculate layout for a tree structure
    * 
@@ -80,7 +80,9 @@ export class PackingLayoutEngine extends LayoutEngine {
       minNodeWidth: layoutOptions.minNodeWidth ?? 80, // Smaller default might be ok
       minNodeHeight: layoutOptions.minNodeHeight ?? 40, // Smaller default might be ok
       targetAspectRatio: layoutOptions.targetAspectRatio ?? 1, // Default to square-ish packing
-      layoutType: layoutOptions.layoutType ?? 'packing' // Identify layout type
+      layoutType: layoutOptions.layoutType ?? 'packing', // Identify layout type
+      sortChildren: layoutOptions.sortChildren ?? 'input',
+      preserveOrder: layoutOptions.preserveOrder ?? false
     };
 
     super(baseOptions);
@@ -341,7 +343,7 @@ export class PackingLayoutEngine extends LayoutEngine {
     // Fallback if no config found
     if (!bestConfig) {
       const fallbackCols = Math.max(1, Math.ceil(Math.sqrt(n)));
-      console.warn("Could not find best packing arrangement, using fallback grid.");
+      this.warn({ code: 'LAYOUT_FALLBACK', message: 'Could not find best packing arrangement, using fallback grid.' });
       const numRows = Math.ceil(n / fallbackCols);
       const columnWidths = new Array(fallbackCols).fill(0);
       const rowHeights = new Array(numRows).fill(0);
@@ -452,29 +454,3 @@ interface GridConfig {
   columnWidths: number[];
   rowHeights: number[];
 }
-
-// --- How to integrate into src/layout/index.ts ---
-/*
-Add the import:
-import { PackingLayoutEngine } from './PackingLayoutEngine.js'; // Adjust path if needed
-
-Add a case in the switch statement within createLayoutEngine:
-
-export function createLayoutEngine(
-  layoutOptions: LayoutOptions = {},
-  styleOptions?: StyleOptions
-): LayoutEngine {
-  // First, check for explicit layout type
-  if (layoutOptions.layoutType) {
-    switch (layoutOptions.layoutType.toLowerCase()) {
-      // ... other cases
-      case 'packing': // Add this case
-        return new PackingLayoutEngine(layoutOptions, styleOptions);
-      // ... other cases
-      default:
-        // ... fallback
-    }
-  }
-  // ... rest of the function
-}
-*/
\ No newline at end of file
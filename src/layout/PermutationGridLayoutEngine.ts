@@ -305,7 +305,8 @@ export class PermutationGridLayoutEngine extends LayoutEngine {
       spacing: this.options.spacing,
       padding: this.options.padding,
       targetAspectRatio: this.options.targetAspectRatio || 1.6,
-      leafNodeWidth: this.styleOptions?.leafNodeWidth
+      leafNodeWidth: this.styleOptions?.leafNodeWidth,
+      preserveOrder: this.options.preserveOrder
     };
     
     return JSON.stringify(relevantSettings);
@@ -331,8 +332,8 @@ export class PermutationGridLayoutEngine extends LayoutEngine {
     
     const bestPermutation = Array.from({ length: childCount }, (_, i) => i);
     
-    // Decide if we brute-force permutations
-    const doPermutations = childCount <= this.maxPermutationChildren;
+    // Decide if we brute-force permutations (never when the sibling order must be kept)
+    const doPermutations = !this.options.preserveOrder && childCount <= this.maxPermutationChildren;
     
     if (doPermutations) {
       // Generate all permutations
@@ -351,7 +352,7 @@ export class PermutationGridLayoutEngine extends LayoutEngine {
         }
       }
     } else {
-      // For big sets, just use original order
+      // For big sets (or when order is preserved), just use original order
       const candidateLayout = this.tryLayoutForPermutation(childSizes, childCount);
       if (this.isBetterLayout(candidateLayout, bestLayout)) {
         Object.assign(bestLayout, candidateLayout);
@@ -4,6 +4,7 @@ export * from './AspectRatioGridLayoutEngine.js';
 export * from './PermutationGridLayoutEngine.js';
 export * from './FlowGridAspectLayout.js';
 export * from './PackingLayoutEngine.js';
+export * from './registry.js';
 
 import { LayoutEngine } from './LayoutEngine.js';
 import { GridLayoutEngine } from './GridLayoutEngine.js';
@@ -11,49 +12,141 @@ import { AspectRatioGridLayoutEngine } from './AspectRatioGridLayoutEngine.js';
 import { PermutationGridLayoutEngine } from './PermutationGridLayoutEngine.js';
 import { FlowGridAspectLayout } from './FlowGridAspectLayout.js';
 import { PackingLayoutEngine } from './PackingLayoutEngine.js';
-import { LayoutOptions, StyleOptions } from '../types/index.js';
+import {
+  findLayoutEngine,
+  listLayoutEngines,
+  LayoutOptionsSchema,
+  registerLayoutEngine,
+  resolveLayoutEngineName
+} from './registry.js';
+import { LayoutOptions, StyleOptions, WarningHandler } from '../types/index.js';
+import { DEFAULT_LAYOUT_OPTIONS } from '../config/index.js';
+import { consoleWarningHandler } from '../utils/warnings.js';
+
+// Options honored by every built-in engine
+const SPACING_OPTIONS: LayoutOptionsSchema = {
+  padding: { type: 'number', description: 'Padding inside each box', default: DEFAULT_LAYOUT_OPTIONS.padding },
+  spacing: { type: 'number', description: 'Space between sibling boxes', default: DEFAULT_LAYOUT_OPTIONS.spacing },
+  minNodeWidth: { type: 'number', description: 'Minimum box width', default: DEFAULT_LAYOUT_OPTIONS.minNodeWidth },
+  minNodeHeight: { type: 'number', description: 'Minimum box height', default: DEFAULT_LAYOUT_OPTIONS.minNodeHeight }
+};
+
+const ASPECT_RATIO_OPTIONS: LayoutOptionsSchema = {
+  ...SPACING_OPTIONS,
+  targetAspectRatio: {
+    type: 'number',
+    description: 'Target width/height ratio of the diagram',
+    default: DEFAULT_LAYOUT_OPTIONS.targetAspectRatio
+  }
+};
+
+registerLayoutEngine(
+  'grid',
+  (layoutOptions, styleOptions) => new GridLayoutEngine(layoutOptions, styleOptions),
+  {
+    columns: { type: 'number', description: 'Number of columns for child nodes', default: DEFAULT_LAYOUT_OPTIONS.columns },
+    ...SPACING_OPTIONS
+  },
+  { description: 'Nests children in a grid with a fixed number of columns' }
+);
+
+registerLayoutEngine(
+  'aspectRatio',
+  (layoutOptions, styleOptions) => new AspectRatioGridLayoutEngine(layoutOptions, styleOptions),
+  ASPECT_RATIO_OPTIONS,
+  {
+    description: 'Adapts the grid of each parent to approach the target aspect ratio',
+    aliases: ['aspect-ratio']
+  }
+);
+
+registerLayoutEngine(
+  'flowGrid',
+  (layoutOptions, styleOptions) => new FlowGridAspectLayout(layoutOptions, styleOptions),
+  ASPECT_RATIO_OPTIONS,
+  {
+    description: 'Chooses child grids that best match the target aspect ratio, minimizing whitespace',
+    aliases: ['flow-grid', 'flow-aspect']
+  }
+);
+
+registerLayoutEngine(
+  'permutation',
+  (layoutOptions, styleOptions) => new PermutationGridLayoutEngine(layoutOptions, styleOptions),
+  {
+    ...ASPECT_RATIO_OPTIONS,
+    preserveOrder: {
+      type: 'boolean',
+      description: 'Keep sibling order instead of trying permutations',
+      default: DEFAULT_LAYOUT_OPTIONS.preserveOrder
+    },
+    maxPermutationChildren: {
+      type: 'number',
+      description: 'Maximum number of children for which permutations are tried',
+      default: 8
+    }
+  },
+  {
+    description: 'Tries orderings of the children to find the grid closest to the target aspect ratio',
+    aliases: ['optimized', 'permutation-grid']
+  }
+);
+
+registerLayoutEngine(
+  'packing',
+  (layoutOptions, styleOptions) => new PackingLayoutEngine(layoutOptions, styleOptions),
+  ASPECT_RATIO_OPTIONS,
+  {
+    description: 'Packs boxes densely, sizing leaves to their wrapped labels',
+    aliases: ['pack']
+  }
+);
 
 /**
  * Create a layout engine based on the provided options
  * 
  * @param layoutOptions - Layout configuration options
  * @param styleOptions - Style configuration options
- * @returns An appropriate layout engine instance
+ * @param onWarning - Handler for layout diagnostics (logs to the console by default)
+ * @returns An appropriate layout engine instance, whose `name` is the registered engine name
  */
 export function createLayoutEngine(
   layoutOptions: LayoutOptions = {},
-  styleOptions?: StyleOptions
+  styleOptions?: StyleOptions,
+  onWarning: WarningHandler = consoleWarningHandler
 ): LayoutEngine {
+  const name = selectLayoutEngineName(layoutOptions, onWarning);
+  const factory = findLayoutEngine(name);
+  const engine = factory ? factory(layoutOptions, styleOptions) : new GridLayoutEngine(layoutOptions, styleOptions);
+  
+  engine.name = name;
+  return engine.setWarningHandler(onWarning);
+}
+
+/**
+ * Resolve the registered name of the layout engine matching the options
+ */
+function selectLayoutEngineName(layoutOptions: LayoutOptions, onWarning: WarningHandler): string {
   // First, check for explicit layout type
   if (layoutOptions.layoutType) {
-    switch (layoutOptions.layoutType.toLowerCase()) {
-      case 'grid':
-        return new GridLayoutEngine(layoutOptions, styleOptions);
-      case 'aspectratio':
-      case 'aspect-ratio':
-        return new AspectRatioGridLayoutEngine(layoutOptions, styleOptions);
-      case 'flowgrid':
-      case 'flow-grid':
-      case 'flow-aspect':
-        return new FlowGridAspectLayout(layoutOptions, styleOptions);
-      case 'optimized':
-      case 'permutation':
-      case 'permutation-grid':
-        return new PermutationGridLayoutEngine(layoutOptions, styleOptions);
-      case 'packing':
-      case 'pack':
-        return new PackingLayoutEngine(layoutOptions, styleOptions);
-      default:
-        console.warn(`Unknown layout type: ${layoutOptions.layoutType}, falling back to grid layout`);
-        return new GridLayoutEngine(layoutOptions, styleOptions);
+    const name = resolveLayoutEngineName(layoutOptions.layoutType);
+    if (name !== undefined) {
+      return name;
     }
+    
+    onWarning({
+      code: 'UNKNOWN_LAYOUT_TYPE',
+      message: `Unknown layout type: ${layoutOptions.layoutType}, falling back to grid layout ` +
+        `(available: ${listLayoutEngines().map(engine => engine.name).join(', ')})`
+    });
+    return 'grid';
   }
   
-  // For backward compatibility: use AspectRatioGridLayoutEngine if targetAspectRatio is provided
+  // For backward compatibility: use the aspect ratio engine if targetAspectRatio is provided
   if (layoutOptions.targetAspectRatio !== undefined) {
-    return new AspectRatioGridLayoutEngine(layoutOptions, styleOptions);
+    return 'aspectRatio';
   }
   
-  // Default to GridLayoutEngine
-  return new GridLayoutEngine(layoutOptions, styleOptions);
+  // Default to the grid engine
+  return 'grid';
 }
@@ -0,0 +1,132 @@
+import { LayoutEngine } from './LayoutEngine.js';
+import { LayoutOptions, OptionSchema, StyleOptions } from '../types/index.js';
+
+/**
+ * Creates a layout engine from the layout and style options.
+ * Engine-specific options are passed in `layoutOptions` alongside the standard ones.
+ */
+export type LayoutEngineFactory = (layoutOptions: LayoutOptions, styleOptions?: StyleOptions) => LayoutEngine;
+
+/**
+ * Description of a layout option supported by an engine
+ */
+export type LayoutOptionSchema = OptionSchema;
+
+/**
+ * Options supported by a layout engine, keyed by option name
+ */
+export type LayoutOptionsSchema = Record<string, LayoutOptionSchema>;
+
+/**
+ * Additional details about a registered layout engine
+ */
+export interface LayoutEngineDetails {
+  /** Short description of the algorithm */
+  description?: string;
+  
+  /** Alternative names that select the engine */
+  aliases?: string[];
+}
+
+/**
+ * A registered layout engine, as listed by listLayoutEngines
+ */
+export interface LayoutEngineInfo {
+  /** Name that selects the engine as `layoutType` */
+  name: string;
+  
+  /** Short description of the algorithm */
+  description: string;
+  
+  /** Alternative names that select the engine */
+  aliases: string[];
+  
+  /** Options the engine supports */
+  options: LayoutOptionsSchema;
+}
+
+interface LayoutEngineRegistration extends LayoutEngineInfo {
+  factory: LayoutEngineFactory;
+}
+
+// Registered engines in registration order, keyed by name
+const engines = new Map<string, LayoutEngineRegistration>();
+
+// Engine name for every lowercased name and alias
+const names = new Map<string, string>();
+
+/**
+ * Register a layout engine so it can be selected by name with the `layoutType` option.
+ * Names and aliases are matched case-insensitively. Registering an existing name
+ * replaces that engine.
+ * 
+ * @param name - Name that selects the engine
+ * @param factory - Creates the engine from the layout and style options
+ * @param optionsSchema - Options the engine supports, for listing and documentation
+ * @param details - Description and aliases
+ * @throws Error if the name or an alias is already used by another engine
+ */
+export function registerLayoutEngine(
+  name: string,
+  factory: LayoutEngineFactory,
+  optionsSchema: LayoutOptionsSchema = {},
+  details: LayoutEngineDetails = {}
+): void {
+  const aliases = details.aliases ?? [];
+  
+  [name, ...aliases].forEach(key => {
+    const owner = names.get(key.toLowerCase());
+    if (owner !== undefined && owner !== name) {
+      throw new Error(`Layout engine name "${key}" is already used by the ${owner} engine`);
+    }
+  });
+  
+  // Forget the aliases of an engine being replaced
+  names.forEach((owner, key) => {
+    if (owner === name) names.delete(key);
+  });
+  
+  [name, ...aliases].forEach(key => names.set(key.toLowerCase(), name));
+  engines.set(name, {
+    name,
+    description: details.description ?? '',
+    aliases: [...aliases],
+    options: { ...optionsSchema },
+    factory
+  });
+}
+
+/**
+ * Find the factory of a registered layout engine
+ * 
+ * @param name - Engine name or alias (case-insensitive)
+ * @returns The engine factory, or undefined if no engine has that name
+ */
+export function findLayoutEngine(name: string): LayoutEngineFactory | undefined {
+  const engineName = resolveLayoutEngineName(name);
+  return engineName === undefined ? undefined : engines.get(engineName)?.factory;
+}
+
+/**
+ * Resolve an engine name or alias to the name the engine is registered under
+ * 
+ * @param name - Engine name or alias (case-insensitive)
+ * @returns The registered engine name, or undefined if no engine has that name
+ */
+export function resolveLayoutEngineName(name: string): string | undefined {
+  return names.get(name.toLowerCase());
+}
+
+/**
+ * List the registered layout engines with their descriptions and supported options
+ * 
+ * @returns Registered engines, in registration order
+ */
+export function listLayoutEngines(): LayoutEngineInfo[] {
+  return Array.from(engines.values()).map(({ name, description, aliases, options }) => ({
+    name,
+    description,
+    aliases: [...aliases],
+    options: { ...options }
+  }));
+}
@@ -0,0 +1,81 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { DiagramConfig, DiagramOptions } from '../types/index.js';
+import { mergeDiagramOptions } from '../config/index.js';
+import { InputError, errorMessage } from '../errors/index.js';
+import { parseDiagramConfig } from '../importers/index.js';
+
+/**
+ * Configuration file names, in the order they are looked for in each directory
+ */
+export const CONFIG_FILE_NAMES = ['metis.config.json', '.metisrc'];
+
+/**
+ * Find the configuration file that applies to a directory, looking in the
+ * directory itself and then in each of its parents
+ *
+ * @param startDir - Directory to start looking in (usually the working directory)
+ * @returns Path of the nearest configuration file, or undefined if there is none
+ */
+export async function findConfigFile(startDir: string): Promise<string | undefined> {
+  let dir = path.resolve(startDir);
+
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      const stats = await fs.stat(candidate).catch(() => undefined);
+      if (stats?.isFile()) return candidate;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Read and validate a configuration file
+ *
+ * @param filePath - Path of the configuration file
+ * @returns The default options and the named profiles declared in the file
+ * @throws InputError if the file cannot be read or contains invalid options
+ */
+export async function loadConfigFile(filePath: string): Promise<DiagramConfig> {
+  try {
+    return parseDiagramConfig(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new InputError(`Error reading configuration file ${filePath}: ${errorMessage(error)}`, { cause: error });
+  }
+}
+
+/**
+ * Option sources of a CLI run
+ */
+export interface CliOptionSources {
+  /** Built-in CLI defaults, applied on top of DEFAULT_DIAGRAM_OPTIONS */
+  defaults: DiagramOptions;
+
+  /** Top-level options of the configuration file */
+  config?: DiagramOptions;
+
+  /** Options of a YAML diagram document, which override the configuration file */
+  document?: DiagramOptions;
+
+  /** Options of the selected profile */
+  profile?: DiagramOptions;
+
+  /** Options given as CLI flags */
+  flags?: DiagramOptions;
+}
+
+/**
+ * Merge the option sources of a CLI run. From highest to lowest precedence: CLI flags,
+ * the selected profile, file defaults (the diagram document over the top-level options
+ * of the configuration file) and the built-in defaults.
+ *
+ * @param sources - Option sources
+ * @returns The merged diagram options
+ */
+export function resolveCliOptions(sources: CliOptionSources): DiagramOptions {
+  return mergeDiagramOptions(sources.defaults, sources.config, sources.document, sources.profile, sources.flags);
+}
@@ -0,0 +1,148 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { HierarchyNode } from '../types/index.js';
+import { InputError, errorMessage } from '../errors/index.js';
+
+/**
+ * Options for building a hierarchy from a directory tree
+ */
+export interface DirectoryImportOptions {
+  /** Include files as leaf nodes (defaults to true); otherwise only folders are shown */
+  includeFiles?: boolean;
+
+  /**
+   * Glob patterns for files to include (defaults to all files). Patterns without a '/'
+   * match the file name at any depth; others match the path relative to the root.
+   * Folders left without matching files are omitted.
+   */
+  include?: string[];
+
+  /** Glob patterns for files and folders to leave out, matched like `include` */
+  exclude?: string[];
+
+  /** Maximum depth below the root folder (defaults to unlimited) */
+  maxDepth?: number;
+
+  /** Add a `size` property in bytes to files, and the total size of their files to folders */
+  fileSizes?: boolean;
+}
+
+/**
+ * Result of walking a directory entry
+ */
+interface WalkResult {
+  /** Nodes for the entry and its descendants */
+  nodes: HierarchyNode[];
+
+  /** Total size in bytes of the included files */
+  size: number;
+
+  /** Whether any included file was found */
+  hasFiles: boolean;
+}
+
+/**
+ * Build a hierarchy from a local directory tree, with folders as parents and
+ * (optionally) files as leaves. Node IDs are the paths relative to the parent
+ * of the root folder, e.g. `docs/guides/setup.md`. Symbolic links are skipped.
+ *
+ * @param root - Directory to walk
+ * @param options - Filtering, depth and size options
+ * @returns Flat array of hierarchy nodes, with a `type` property of `folder` or `file`
+ * @throws InputError if the root is not a directory or the tree cannot be read
+ */
+export async function readDirectoryTree(
+  root: string,
+  options: DirectoryImportOptions = {}
+): Promise<HierarchyNode[]> {
+  const rootPath = path.resolve(root);
+  const stats = await fs.stat(rootPath).catch(error => {
+    throw new InputError(`Cannot read directory ${root}: ${errorMessage(error)}`, { cause: error });
+  });
+
+  if (!stats.isDirectory()) {
+    throw new InputError(`Not a directory: ${root}`);
+  }
+
+  const includeFiles = options.includeFiles ?? true;
+  const maxDepth = options.maxDepth ?? Number.POSITIVE_INFINITY;
+  const rootName = path.basename(rootPath) || rootPath;
+
+  const matches = (patterns: string[] | undefined, relativePath: string) =>
+    (patterns ?? []).some(pattern =>
+      minimatch(pattern.includes('/') ? relativePath : path.posix.basename(relativePath), pattern, { dot: true })
+    );
+
+  const walk = async (
+    directory: string,
+    relativePath: string,
+    parentId: string | null,
+    depth: number
+  ): Promise<WalkResult> => {
+    const id = parentId === null ? rootName : `${parentId}/${path.posix.basename(relativePath)}`;
+    const nodes: HierarchyNode[] = [];
+    let size = 0;
+    let hasFiles = false;
+
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const entry of entries) {
+      const entryPath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+      if (entry.isSymbolicLink() || matches(options.exclude, entryPath)) continue;
+
+      if (entry.isDirectory()) {
+        // Deeper folders are still walked when sizes are needed, but not shown
+        if (depth >= maxDepth && !options.fileSizes) continue;
+
+        const child = await walk(path.join(directory, entry.name), entryPath, id, depth + 1);
+        size += child.size;
+        hasFiles = hasFiles || child.hasFiles;
+
+        const pruned = options.include && options.include.length > 0 && !child.hasFiles;
+        if (depth < maxDepth && !pruned) {
+          nodes.push(...child.nodes);
+        }
+      } else if (entry.isFile()) {
+        if (options.include && options.include.length > 0 && !matches(options.include, entryPath)) continue;
+
+        const fileSize = options.fileSizes ? (await fs.stat(path.join(directory, entry.name))).size : 0;
+        size += fileSize;
+        hasFiles = true;
+
+        if (includeFiles && depth < maxDepth) {
+          nodes.push(createNode(`${id}/${entry.name}`, entry.name, id, 'file', options.fileSizes ? fileSize : undefined));
+        }
+      }
+    }
+
+    const name = parentId === null ? rootName : path.posix.basename(relativePath);
+    return {
+      nodes: [createNode(id, name, parentId, 'folder', options.fileSizes ? size : undefined), ...nodes],
+      size,
+      hasFiles
+    };
+  };
+
+  try {
+    return (await walk(rootPath, '', null, 0)).nodes;
+  } catch (error) {
+    throw new InputError(`Cannot read directory ${root}: ${errorMessage(error)}`, { cause: error });
+  }
+}
+
+function createNode(
+  id: string,
+  name: string,
+  parent: string | null,
+  type: 'folder' | 'file',
+  size?: number
+): HierarchyNode {
+  return {
+    id,
+    name,
+    parent,
+    properties: size === undefined ? { type } : { type, size }
+  };
+}
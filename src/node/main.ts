@@ -1,154 +1,752 @@
 #!/usr/bin/env node
 // Metis - Hierarchical Diagram Generator
-import fs from 'fs/promises';
 import path from 'path';
+import { pathToFileURL } from 'url';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import { generateDiagram } from '../core/index.js';
-import { DiagramOptions, HierarchyNode, OutputFormat } from '../types/index.js';
-import { DEFAULT_DIAGRAM_OPTIONS } from '../config/index.js';
+import {
+  composeHierarchies,
+  formatValidationReport,
+  generateDiagram,
+  parseFilterExpression,
+  validateHierarchy
+} from '../core/index.js';
+import {
+  detectInputFormat,
+  MultipleParentPolicy,
+  parseDiagramDocument,
+  parseInput,
+  slugify
+} from '../importers/index.js';
+import {
+  DiagramDocument,
+  DiagramOptions,
+  FilterMode,
+  HierarchyNode,
+  HierarchySource,
+  InputFormat,
+  OrphanPolicy,
+  OutputFormat,
+  SortStrategy
+} from '../types/index.js';
+import {
+  ColorPalette,
+  DEFAULT_DIAGRAM_OPTIONS,
+  findTheme,
+  listThemes,
+  mergeDiagramOptions,
+  registerTheme
+} from '../config/index.js';
+import { InputError, MetisError, MetisErrorCode, errorMessage } from '../errors/index.js';
+import { findLayoutEngine, listLayoutEngines, registerLayoutEngine } from '../layout/index.js';
+import {
+  findOutputFormat,
+  findOutputFormatByExtension,
+  listOutputFormats,
+  registerOutputFormat
+} from '../output/index.js';
+import { CliOptionSources, findConfigFile, loadConfigFile, resolveCliOptions } from './configFile.js';
+import { readDirectoryTree } from './directoryImporter.js';
+import { loadPaletteFile } from './paletteFile.js';
+import { readInputText, STDIO_PATH, writeDiagram } from './stdio.js';
+
+// Defaults the CLI applies on top of DEFAULT_DIAGRAM_OPTIONS.
+// Configuration files, diagram documents, profiles and explicit flags override these.
+const CLI_DEFAULT_OPTIONS: DiagramOptions = {
+  layout: {
+    layoutType: 'grid',
+    targetAspectRatio: 1.78
+  },
+  format: 'svg'
+};
+
+// Output file name (without extension) when no output path is given
+const DEFAULT_OUTPUT_NAME = 'diagram';
+
+// Exit code for each error type, so scripts can tell bad input data from a broken
+// environment. Usage errors and unexpected failures exit with 1.
+const EXIT_CODES: Record<MetisErrorCode, number> = {
+  INPUT_ERROR: 2,
+  VALIDATION_ERROR: 3,
+  CYCLE_ERROR: 4,
+  LAYOUT_ERROR: 5,
+  RENDER_ERROR: 6,
+  CONVERSION_ERROR: 7
+};
 
 // Define CLI options
 const argv = yargs(hideBin(process.argv))
+  .command('validate', 'Check the input hierarchy and report every problem without rendering', {
+    'report-format': {
+      describe: 'Format of the validation report',
+      choices: ['text', 'json'],
+      default: 'text'
+    }
+  })
+  .command('layouts', 'List the available layout engines and the options they support')
+  .command('formats', 'List the available output formats and the options they support')
+  .command('themes', 'List the available themes')
   .options({
     'input': {
       alias: 'i',
-      describe: 'Input JSON file path',
+      describe: 'Input file path (JSON, YAML, CSV, TSV, Markdown/text outline, path list, Mermaid mindmap, OPML, ArchiMate XML or SKOS); ' +
+        'repeat to combine several files, or use - to read from stdin (input files may also be given as positional arguments)',
+      type: 'string',
+      array: true
+    },
+    'dir': {
+      describe: 'Build the hierarchy from a local directory tree (repeatable; combined with any --input files)',
+      type: 'string',
+      array: true
+    },
+    'dir-files': {
+      describe: 'Show files as leaves of the directory tree (use --no-dir-files for folders only)',
+      type: 'boolean',
+      default: true
+    },
+    'dir-include': {
+      describe: 'Glob patterns for files to include from the directory tree',
+      type: 'string',
+      array: true
+    },
+    'dir-exclude': {
+      describe: 'Glob patterns for files and folders to exclude from the directory tree',
+      type: 'string',
+      array: true
+    },
+    'dir-depth': {
+      describe: 'Maximum depth of the directory tree below the root folder',
+      type: 'number'
+    },
+    'dir-sizes': {
+      describe: 'Add file sizes in bytes (and folder totals) as a "size" property',
+      type: 'boolean',
+      default: false
+    },
+    'mount': {
+      describe: 'Mount the root nodes of a file under an existing node, as <file>=<node-id> (repeatable)',
+      type: 'string',
+      array: true
+    },
+    'namespace-mounts': {
+      describe: 'Prefix the IDs of mounted files with the file name to avoid collisions',
+      type: 'boolean',
+      default: true
+    },
+    'input-format': {
+      describe: 'Input format (detected from the file extension if omitted)',
+      choices: ['json', 'nested', 'yaml', 'csv', 'tsv', 'outline', 'paths', 'mermaid', 'opml', 'archimate', 'skos']
+    },
+    'id-column': {
+      describe: 'CSV/TSV column holding the node ID',
+      type: 'string',
+      default: 'id'
+    },
+    'name-column': {
+      describe: 'CSV/TSV column holding the node name',
+      type: 'string',
+      default: 'name'
+    },
+    'parent-column': {
+      describe: 'CSV/TSV column holding the parent node ID',
+      type: 'string',
+      default: 'parent'
+    },
+    'level-columns': {
+      describe: 'Comma-separated CSV/TSV level columns (e.g. L1,L2,L3), one row per leaf',
+      type: 'string'
+    },
+    'path-column': {
+      describe: 'CSV/TSV column holding slash-separated node paths, instead of id/name/parent columns',
+      type: 'string'
+    },
+    'path-separator': {
+      describe: 'Separator between path segments in path input (escape with a backslash)',
+      type: 'string',
+      default: '/'
+    },
+    'outline-headings': {
+      describe: 'Treat Markdown # headings as hierarchy levels in outline input',
+      type: 'boolean',
+      default: true
+    },
+    'archimate-types': {
+      describe: 'Comma-separated ArchiMate element types to import',
+      type: 'string',
+      default: 'Capability'
+    },
+    'language': {
+      describe: 'Preferred language for multilingual names and labels (e.g. en)',
+      type: 'string'
+    },
+    'multiple-parents': {
+      describe: 'Policy for SKOS concepts with several broader concepts',
+      choices: ['first', 'error', 'duplicate'],
+      default: 'first'
+    },
+    'orphan-policy': {
+      describe: 'How to handle nodes whose parent does not exist',
+      choices: ['error', 'drop', 'promote-to-root', 'attach-to'],
+      defaultDescription: 'error'
+    },
+    'orphan-root-name': {
+      describe: 'Name of the root that orphans are attached to with --orphan-policy attach-to',
+      type: 'string',
+      defaultDescription: 'Unassigned'
+    },
+    'root': {
+      describe: 'Show only the subtree of this node ID; repeat to show several subtrees side by side',
       type: 'string',
-      demandOption: true
+      array: true
+    },
+    'depth': {
+      describe: 'Number of levels to show below the root(s)',
+      type: 'number'
+    },
+    'breadcrumb': {
+      describe: 'Show the ancestor path of the --root node(s) as a header above the diagram',
+      type: 'boolean',
+      defaultDescription: 'false'
+    },
+    'filter': {
+      describe: 'Show only matching nodes and their ancestors, e.g. "tag:regulatory" or ' +
+        '"status=target and not tag:legacy"; repeat to require every filter',
+      type: 'string',
+      array: true
+    },
+    'filter-mode': {
+      describe: 'Hide nodes that do not match the filter, or show them greyed out',
+      choices: ['hide', 'dim'],
+      defaultDescription: 'hide'
+    },
+    'config': {
+      describe: 'Configuration file with default options and named profiles',
+      type: 'string',
+      defaultDescription: 'metis.config.json or .metisrc in the working directory or a parent'
+    },
+    'profile': {
+      describe: 'Named profile from the configuration file to apply (e.g. print-a3)',
+      type: 'string'
     },
     'output': {
       alias: 'o',
-      describe: 'Output file path',
+      describe: 'Output file path, or - to write to stdout',
       type: 'string',
-      default: 'diagram.svg'
+      defaultDescription: 'diagram.<format extension>, or stdout when reading from stdin'
     },
     'format': {
       alias: 'f',
-      describe: 'Output format (svg, png, pdf)',
-      choices: ['svg', 'png', 'pdf'],
-      default: 'svg'
+      describe: `Output format (${listOutputFormats().map(format => format.name).join(', ')}, or one added by a plugin; ` +
+        'run "metis formats" for details)',
+      type: 'string',
+      defaultDescription: 'from the output file extension, or svg'
+    },
+    'format-option': {
+      describe: 'Option for the output format as <name>=<value>, e.g. scale=2 for png; repeatable',
+      type: 'array',
+      string: true
+    },
+    'format-plugin': {
+      describe: 'Module that registers custom output formats (a package name or file path); repeatable',
+      type: 'array',
+      string: true
     },
     'layout-type': {
-      describe: 'Layout algorithm to use (grid or aspectRatio)',
-      choices: ['grid', 'aspectRatio'],
-      default: 'grid'
+      describe: 'Layout engine to use (grid, aspectRatio, flowGrid, permutation, packing, or one added by a plugin; ' +
+        'run "metis layouts" for the full list)',
+      type: 'string',
+      defaultDescription: 'grid'
+    },
+    'layout-plugin': {
+      describe: 'Module that registers custom layout engines (a package name or file path); repeatable',
+      type: 'array',
+      string: true
     },
     'target-aspect-ratio': {
       describe: 'Target aspect ratio for aspectRatio layout (width/height)',
       type: 'number',
-      default: 1.78
+      defaultDescription: '1.78'
     },
     'columns': {
       describe: 'Number of columns for child layout',
       type: 'number',
-      default: DEFAULT_DIAGRAM_OPTIONS.layout.columns
+      defaultDescription: String(DEFAULT_DIAGRAM_OPTIONS.layout.columns)
     },
     'padding': {
       describe: 'Internal padding within boxes',
       type: 'number',
-      default: DEFAULT_DIAGRAM_OPTIONS.layout.padding
+      defaultDescription: String(DEFAULT_DIAGRAM_OPTIONS.layout.padding)
     },
     'spacing': {
       describe: 'Spacing between sibling boxes',
       type: 'number',
-      default: DEFAULT_DIAGRAM_OPTIONS.layout.spacing
+      defaultDescription: String(DEFAULT_DIAGRAM_OPTIONS.layout.spacing)
     },
     'min-node-width': {
       describe: 'Minimum width for nodes',
       type: 'number',
-      default: DEFAULT_DIAGRAM_OPTIONS.layout.minNodeWidth
+      defaultDescription: String(DEFAULT_DIAGRAM_OPTIONS.layout.minNodeWidth)
     },
     'min-node-height': {
       describe: 'Minimum height for nodes',
       type: 'number',
-      default: DEFAULT_DIAGRAM_OPTIONS.layout.minNodeHeight
+      defaultDescription: String(DEFAULT_DIAGRAM_OPTIONS.layout.minNodeHeight)
+    },
+    'sort-children': {
+      describe: 'Order of sibling nodes (input order, "order" field, name, or size: the "size" property or subtree size)',
+      choices: ['input', 'order', 'name', 'size'],
+      defaultDescription: 'input'
+    },
+    'preserve-order': {
+      describe: 'Keep sibling order; layout engines may not reorder children to improve fit',
+      type: 'boolean',
+      defaultDescription: 'false'
+    },
+    'theme': {
+      describe: 'Theme providing fonts, borders and level colors (default, corporate, print, dark, high-contrast, ' +
+        'or one added by a plugin; run "metis themes" for details); other style flags override it',
+      type: 'string',
+      defaultDescription: 'default'
+    },
+    'theme-plugin': {
+      describe: 'Module that registers custom themes (a package name or file path); repeatable',
+      type: 'array',
+      string: true
     },
     'font-family': {
       describe: 'Font family for node text',
       type: 'string',
-      default: DEFAULT_DIAGRAM_OPTIONS.style.fontFamily
+      defaultDescription: DEFAULT_DIAGRAM_OPTIONS.style.fontFamily
     },
     'font-size': {
       describe: 'Font size for node text',
       type: 'number',
-      default: DEFAULT_DIAGRAM_OPTIONS.style.fontSize
+      defaultDescription: String(DEFAULT_DIAGRAM_OPTIONS.style.fontSize)
     },
     'font-color': {
       describe: 'Color for node text',
       type: 'string',
-      default: DEFAULT_DIAGRAM_OPTIONS.style.fontColor
+      defaultDescription: DEFAULT_DIAGRAM_OPTIONS.style.fontColor
     },
     'border-width': {
       describe: 'Width of node borders',
       type: 'number',
-      default: DEFAULT_DIAGRAM_OPTIONS.style.borderWidth
+      defaultDescription: String(DEFAULT_DIAGRAM_OPTIONS.style.borderWidth)
     },
     'border-color': {
       describe: 'Color of node borders',
       type: 'string',
-      default: DEFAULT_DIAGRAM_OPTIONS.style.borderColor
+      defaultDescription: DEFAULT_DIAGRAM_OPTIONS.style.borderColor
     },
     'border-radius': {
       describe: 'Radius for rounded corners',
       type: 'number',
-      default: DEFAULT_DIAGRAM_OPTIONS.style.borderRadius
+      defaultDescription: String(DEFAULT_DIAGRAM_OPTIONS.style.borderRadius)
     },
     'background-color': {
       describe: 'Default background color for nodes',
       type: 'string',
-      default: DEFAULT_DIAGRAM_OPTIONS.style.backgroundColor
+      defaultDescription: DEFAULT_DIAGRAM_OPTIONS.style.backgroundColor
     },
     'color-palette': {
       describe: 'JSON string mapping top-level node IDs to colors',
       type: 'string',
-      default: '{}'
+      defaultDescription: '{}'
+    },
+    'palette-file': {
+      describe: 'JSON file with a palette: root node IDs or levels ("0", "1", ..., "leaf") mapped to colors, ' +
+        'or a set of named palettes under "palettes"',
+      type: 'string'
+    },
+    'palette': {
+      describe: 'Name of the palette to use from a --palette-file with several palettes',
+      type: 'string'
     },
     'color-by-level': {
       describe: 'Enable level-based coloring',
       type: 'boolean',
-      default: false
+      defaultDescription: 'false'
     },
     'leaf-node-width': {
       describe: 'Fixed width for leaf nodes (overrides minNodeWidth)',
       type: 'number',
-      default: DEFAULT_DIAGRAM_OPTIONS.style.leafNodeWidth
+      defaultDescription: String(DEFAULT_DIAGRAM_OPTIONS.style.leafNodeWidth)
     },
     'png-label-offset': {
       describe: 'Vertical offset for labels in PNG format (fixes alignment issues)',
       type: 'number',
-      default: 0
+      defaultDescription: '0'
     }
   })
   .help()
   .parseSync(); // Use parseSync() instead of argv
 
-async function run() {
+/**
+ * Split a comma-separated flag value into trimmed items
+ */
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Read and parse an input file using the requested or detected format
+ */
+async function readInput(file: string): Promise<DiagramDocument> {
+  const inputPath = file === STDIO_PATH ? '' : path.resolve(process.cwd(), file);
+  const source = file === STDIO_PATH ? 'stdin' : file;
+  let inputData: string;
   try {
-    // Read input file
-    const inputPath = path.resolve(process.cwd(), argv.input as string);
-    const inputData = await fs.readFile(inputPath, 'utf-8');
-    
-    // Parse input JSON
-    let nodes: HierarchyNode[];
-    try {
-      nodes = JSON.parse(inputData);
-    } catch (error) {
-      console.error('Error parsing input JSON:', error);
+    inputData = await readInputText(file);
+  } catch (error) {
+    throw new InputError(`Cannot read input ${source}: ${errorMessage(error)}`, { cause: error });
+  }
+  
+  const inputFormat = ((argv as any)['input-format'] as InputFormat | undefined) ??
+    detectInputFormat(inputPath);
+  const levelColumns = (argv as any)['level-columns'] as string | undefined;
+  
+  try {
+    if (inputFormat === 'yaml') {
+      // YAML input may be a diagram document that also carries options
+      return parseDiagramDocument(inputData);
+    }
+    
+    const nodes: HierarchyNode[] = parseInput(inputData, inputFormat, {
+      csv: {
+        idColumn: (argv as any)['id-column'] as string,
+        nameColumn: (argv as any)['name-column'] as string,
+        parentColumn: (argv as any)['parent-column'] as string,
+        levelColumns: levelColumns ? splitList(levelColumns) : undefined,
+        pathColumn: (argv as any)['path-column'] as string | undefined,
+        pathSeparator: (argv as any)['path-separator'] as string
+      },
+      paths: {
+        separator: (argv as any)['path-separator'] as string
+      },
+      outline: {
+        headings: (argv as any)['outline-headings'] as boolean
+      },
+      archimate: {
+        elementTypes: splitList((argv as any)['archimate-types'] as string),
+        language: argv.language as string | undefined
+      },
+      skos: {
+        language: argv.language as string | undefined,
+        multipleParents: (argv as any)['multiple-parents'] as MultipleParentPolicy
+      }
+    });
+    
+    return { nodes, options: {} };
+  } catch (error) {
+    throw new InputError(`Error parsing ${inputFormat.toUpperCase()} input from ${source}: ${errorMessage(error)}`, { cause: error });
+  }
+}
+
+/**
+ * Input files from --input and positional arguments (after the command, if any)
+ */
+function inputFiles(): string[] {
+  const command = argv._[0];
+  const positional = argv._.slice(['validate', 'layouts', 'formats', 'themes'].includes(String(command)) ? 1 : 0).map(String);
+  return [...((argv.input as string[] | undefined) ?? []), ...positional];
+}
+
+/**
+ * Read all input and mounted files and compose them into a single hierarchy.
+ * Options declared in YAML diagram documents are merged in file order.
+ */
+async function readInputs(): Promise<DiagramDocument> {
+  const sources: HierarchySource[] = [];
+  let options: DiagramOptions = {};
+  
+  const files = inputFiles();
+  const directories = ((argv as any)['dir'] as string[] | undefined) ?? [];
+  if (files.length === 0 && directories.length === 0) {
+    console.error('No input given: pass an input file, - to read from stdin, or --dir <directory>');
+    process.exit(1);
+  }
+  
+  if (files.filter(file => file === STDIO_PATH).length > 1) {
+    console.error('stdin (-) can only be read once');
+    process.exit(1);
+  }
+  
+  for (const file of files) {
+    const document = await readInput(file);
+    sources.push({ name: file, nodes: document.nodes });
+    options = mergeDiagramOptions(options, document.options);
+  }
+  
+  for (const directory of directories) {
+    sources.push({
+      name: directory,
+      nodes: await readDirectoryTree(directory, {
+        includeFiles: (argv as any)['dir-files'] as boolean,
+        include: (argv as any)['dir-include'] as string[] | undefined,
+        exclude: (argv as any)['dir-exclude'] as string[] | undefined,
+        maxDepth: (argv as any)['dir-depth'] as number | undefined,
+        fileSizes: (argv as any)['dir-sizes'] as boolean
+      })
+    });
+  }
+  
+  for (const spec of ((argv as any)['mount'] as string[] | undefined) ?? []) {
+    const separator = spec.lastIndexOf('=');
+    if (separator <= 0 || separator === spec.length - 1) {
+      console.error(`Invalid --mount "${spec}": expected <file>=<node-id>`);
       process.exit(1);
     }
     
-    // Parse color palette
-    let colorPalette = {};
-    try {
-      colorPalette = JSON.parse((argv as any)['color-palette'] as string);
-    } catch (error) {
-      console.error('Error parsing color palette JSON:', error);
+    const file = spec.slice(0, separator);
+    const document = await readInput(file);
+    sources.push({
+      name: file,
+      nodes: document.nodes,
+      mountAt: spec.slice(separator + 1),
+      namespace: (argv as any)['namespace-mounts'] ? slugify(path.parse(file).name) : undefined
+    });
+    options = mergeDiagramOptions(options, document.options);
+  }
+  
+  // A single input is passed through as is, so duplicate IDs are left to validation
+  const nodes = sources.length === 1 ? sources[0].nodes : composeHierarchies(sources);
+  
+  return { nodes, options };
+}
+
+/**
+ * Print the validation report for the input and exit with the validation error code if it has errors
+ */
+function runValidate(nodes: HierarchyNode[], options: DiagramOptions): void {
+  const report = validateHierarchy(nodes, options);
+  
+  if ((argv as any)['report-format'] === 'json') {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } else {
+    process.stdout.write(`${formatValidationReport(report)}\n`);
+  }
+  
+  process.exit(report.valid ? 0 : EXIT_CODES.VALIDATION_ERROR);
+}
+
+/**
+ * Load the plugins given with a CLI option. A plugin registers its extensions when
+ * imported, or exports a `register` function that is called with the register function
+ * (`registerLayoutEngine` for layout plugins, `registerOutputFormat` for format plugins,
+ * `registerTheme` for theme plugins).
+ */
+async function loadPlugins(option: string, register: (...args: any[]) => void): Promise<void> {
+  for (const plugin of ((argv as any)[option] as string[] | undefined) ?? []) {
+    // Relative and absolute paths are resolved from the working directory
+    const specifier = plugin.startsWith('.') || path.isAbsolute(plugin)
+      ? pathToFileURL(path.resolve(process.cwd(), plugin)).href
+      : plugin;
+    
+    const module = await import(specifier);
+    if (typeof module.register === 'function') {
+      await module.register(register);
+    }
+  }
+}
+
+/**
+ * Print the registered layout engines with their aliases and options
+ */
+function runLayouts(): void {
+  listLayoutEngines().forEach(engine => {
+    const aliases = engine.aliases.length > 0 ? ` (${engine.aliases.join(', ')})` : '';
+    process.stdout.write(`${engine.name}${aliases}\n`);
+    if (engine.description) {
+      process.stdout.write(`  ${engine.description}\n`);
+    }
+    
+    Object.entries(engine.options).forEach(([option, schema]) => {
+      const defaultValue = schema.default !== undefined ? ` [default: ${schema.default}]` : '';
+      process.stdout.write(`    ${option} <${schema.type}>  ${schema.description}${defaultValue}\n`);
+    });
+  });
+}
+
+/**
+ * Print the registered output formats with their file extensions and options
+ */
+function runFormats(): void {
+  listOutputFormats().forEach(format => {
+    process.stdout.write(`${format.name} (${format.extension}, ${format.mimeType})\n`);
+    if (format.description) {
+      process.stdout.write(`  ${format.description}\n`);
+    }
+    
+    Object.entries(format.options).forEach(([option, schema]) => {
+      const defaultValue = schema.default !== undefined ? ` [default: ${schema.default}]` : '';
+      process.stdout.write(`    ${option} <${schema.type}>  ${schema.description}${defaultValue}\n`);
+    });
+  });
+}
+
+/**
+ * Print the registered themes with their descriptions
+ */
+function runThemes(): void {
+  listThemes().forEach(theme => {
+    process.stdout.write(`${theme.name}\n`);
+    if (theme.description) {
+      process.stdout.write(`  ${theme.description}\n`);
+    }
+  });
+}
+
+/**
+ * Combine repeated --filter expressions into one that requires all of them
+ * 
+ * @throws InputError if an expression is malformed
+ */
+function combineFilters(filters: string[]): string | undefined {
+  if (filters.length === 0) return undefined;
+  
+  // Report malformed expressions (as InputError) before reading the input
+  filters.forEach(filter => parseFilterExpression(filter));
+  
+  return filters.length === 1 ? filters[0] : filters.map(filter => `(${filter})`).join(' and ');
+}
+
+/**
+ * Parse --format-option values, converting them to the types the format declares
+ */
+function parseFormatOptions(specs: string[], format: string): Record<string, unknown> {
+  const schema = findOutputFormat(format)?.options ?? {};
+  const formatOptions: Record<string, unknown> = {};
+  
+  specs.forEach(spec => {
+    const separator = spec.indexOf('=');
+    if (separator <= 0) {
+      console.error(`Invalid --format-option "${spec}": expected <name>=<value>`);
       process.exit(1);
     }
     
-    // Configure options
-    const options: DiagramOptions = {
+    const name = spec.slice(0, separator);
+    const value = spec.slice(separator + 1);
+    
+    switch (schema[name]?.type) {
+      case 'number':
+        if (value.trim() === '' || Number.isNaN(Number(value))) {
+          console.error(`Invalid --format-option "${spec}": ${name} must be a number`);
+          process.exit(1);
+        }
+        formatOptions[name] = Number(value);
+        break;
+      case 'boolean':
+        formatOptions[name] = value === 'true';
+        break;
+      default:
+        formatOptions[name] = value;
+    }
+  });
+  
+  return formatOptions;
+}
+
+/**
+ * Read the configuration file given with --config, or the nearest one found from the
+ * working directory, and pick the profile given with --profile
+ * 
+ * @throws InputError if the file is unreadable or invalid, or the profile is unknown
+ */
+async function readConfig(): Promise<{ defaults: DiagramOptions; profile: DiagramOptions }> {
+  const explicitPath = (argv as any)['config'] as string | undefined;
+  const profileName = argv.profile as string | undefined;
+  const configPath = explicitPath !== undefined
+    ? path.resolve(process.cwd(), explicitPath)
+    : await findConfigFile(process.cwd());
+  
+  if (!configPath) {
+    if (profileName !== undefined) {
+      throw new InputError(`Cannot apply profile "${profileName}": no metis.config.json or .metisrc found`);
+    }
+    return { defaults: {}, profile: {} };
+  }
+  
+  const config = await loadConfigFile(configPath);
+  
+  if (profileName === undefined) {
+    return { defaults: config.options, profile: {} };
+  }
+  
+  const profile = config.profiles[profileName];
+  if (!profile) {
+    const available = Object.keys(config.profiles);
+    throw new InputError(
+      `Unknown profile "${profileName}" in ${configPath}; ` +
+      (available.length > 0 ? `available profiles: ${available.join(', ')}` : 'the file defines no profiles')
+    );
+  }
+  
+  return { defaults: config.options, profile };
+}
+
+/**
+ * Read the palette given with --palette-file, picking the one named by --palette
+ */
+async function readPalette(): Promise<ColorPalette | undefined> {
+  const paletteFile = (argv as any)['palette-file'] as string | undefined;
+  const paletteName = argv.palette as string | undefined;
+  
+  if (paletteFile === undefined) {
+    if (paletteName !== undefined) {
+      console.error('--palette requires a --palette-file to pick the palette from');
+      process.exit(1);
+    }
+    return undefined;
+  }
+  
+  return loadPaletteFile(path.resolve(process.cwd(), paletteFile), paletteName);
+}
+
+async function run() {
+  try {
+    await loadPlugins('layout-plugin', registerLayoutEngine);
+    await loadPlugins('format-plugin', registerOutputFormat);
+    await loadPlugins('theme-plugin', registerTheme);
+    
+    if (argv._[0] === 'layouts') {
+      runLayouts();
+      return;
+    }
+    
+    if (argv._[0] === 'formats') {
+      runFormats();
+      return;
+    }
+    
+    if (argv._[0] === 'themes') {
+      runThemes();
+      return;
+    }
+    
+    const config = await readConfig();
+    
+    // Read, parse and compose input
+    const { nodes, options: documentOptions } = await readInputs();
+    
+    // Parse color palette
+    let colorPalette: Record<string, string> | undefined;
+    if ((argv as any)['color-palette'] !== undefined) {
+      try {
+        colorPalette = JSON.parse((argv as any)['color-palette'] as string);
+      } catch (error) {
+        console.error('Error parsing color palette JSON:', error);
+        process.exit(1);
+      }
+    }
+    
+    // Colors given inline with --color-palette override those from the palette file
+    const palette = await readPalette();
+    if (palette) {
+      colorPalette = { ...palette.colors, ...colorPalette };
+    }
+    
+    // Options given explicitly on the command line (unset flags stay undefined)
+    const flagOptions: DiagramOptions = {
       layout: {
         layoutType: (argv as any)['layout-type'] as string,
         columns: argv.columns as number,
@@ -156,9 +754,12 @@ async function run() {
         spacing: argv.spacing as number,
         targetAspectRatio: (argv as any)['target-aspect-ratio'] as number,
         minNodeWidth: (argv as any)['min-node-width'] as number,
-        minNodeHeight: (argv as any)['min-node-height'] as number
+        minNodeHeight: (argv as any)['min-node-height'] as number,
+        sortChildren: (argv as any)['sort-children'] as SortStrategy,
+        preserveOrder: (argv as any)['preserve-order'] as boolean
       },
       style: {
+        theme: argv.theme as string,
         fontFamily: (argv as any)['font-family'] as string,
         fontSize: (argv as any)['font-size'] as number,
         fontColor: (argv as any)['font-color'] as string,
@@ -167,33 +768,94 @@ async function run() {
         borderRadius: (argv as any)['border-radius'] as number,
         backgroundColor: (argv as any)['background-color'] as string,
         colorPalette,
-        colorByLevel: (argv as any)['color-by-level'] as boolean,
-        leafNodeWidth: (argv as any)['leaf-node-width'] !== undefined ? 
-          (argv as any)['leaf-node-width'] as number : 
-          DEFAULT_DIAGRAM_OPTIONS.style.leafNodeWidth,
+        colorByLevel: ((argv as any)['color-by-level'] as boolean | undefined) ?? palette?.byLevel,
+        leafNodeWidth: (argv as any)['leaf-node-width'] as number,
         pngLabelYOffset: (argv as any)['png-label-offset'] as number
       },
       format: argv.format as OutputFormat,
-      outputPath: argv.output as string
+      outputPath: argv.output as string,
+      orphanPolicy: (argv as any)['orphan-policy'] as OrphanPolicy,
+      orphanRootName: (argv as any)['orphan-root-name'] as string,
+      focus: argv.root as string[] | undefined,
+      maxDepth: argv.depth as number | undefined,
+      breadcrumb: argv.breadcrumb as boolean | undefined,
+      filter: combineFilters((argv.filter as string[] | undefined) ?? []),
+      filterMode: (argv as any)['filter-mode'] as FilterMode
     };
     
-    // Generate diagram
-    const output = await generateDiagram(nodes, options);
+    if (flagOptions.maxDepth !== undefined && (!Number.isInteger(flagOptions.maxDepth) || flagOptions.maxDepth < 0)) {
+      console.error(`Invalid --depth ${flagOptions.maxDepth}: expected a non-negative integer`);
+      process.exit(1);
+    }
+    
+    // Precedence: CLI flags > profile > file defaults > built-in defaults
+    // When reading from stdin, write to stdout unless an output path is given
+    const defaults = inputFiles().includes(STDIO_PATH)
+      ? mergeDiagramOptions(CLI_DEFAULT_OPTIONS, { outputPath: STDIO_PATH })
+      : CLI_DEFAULT_OPTIONS;
+    const sources: CliOptionSources = {
+      defaults,
+      config: config.defaults,
+      document: documentOptions,
+      profile: config.profile,
+      flags: flagOptions
+    };
+    const options = resolveCliOptions(sources);
     
-    // Write output to file
-    const outputPath = path.resolve(process.cwd(), argv.output as string);
+    // Without an explicit format, infer it from the output file extension
+    const explicitFormat = [sources.config, sources.document, sources.profile, sources.flags].some(source => source?.format);
+    if (!explicitFormat && options.outputPath && options.outputPath !== STDIO_PATH) {
+      options.format = findOutputFormatByExtension(path.extname(options.outputPath)) ?? options.format;
+    }
     
-    if (typeof output === 'string') {
-      await fs.writeFile(outputPath, output, 'utf-8');
-    } else {
-      await fs.writeFile(outputPath, output);
+    if (argv._[0] === 'validate') {
+      runValidate(nodes, options);
+      return;
+    }
+    
+    const layoutType = options.layout?.layoutType;
+    if (layoutType && !findLayoutEngine(layoutType)) {
+      console.error(`Unknown layout type "${layoutType}"; run "metis layouts" to list the available engines`);
+      process.exit(1);
+    }
+    
+    const theme = options.style?.theme;
+    if (theme && !findTheme(theme)) {
+      console.error(`Unknown theme "${theme}"; run "metis themes" to list the available themes`);
+      process.exit(1);
     }
     
-    console.log(`Diagram successfully generated: ${outputPath}`);
+    const format = findOutputFormat(options.format as string);
+    if (!format) {
+      console.error(`Unknown output format "${options.format}"; run "metis formats" to list the available formats`);
+      process.exit(1);
+    }
+    options.outputPath = options.outputPath ?? `${DEFAULT_OUTPUT_NAME}${format.extension}`;
+    options.formatOptions = {
+      ...options.formatOptions,
+      ...parseFormatOptions(((argv as any)['format-option'] as string[] | undefined) ?? [], options.format as string)
+    };
+    
+    // Generate diagram
+    const output = await generateDiagram(nodes, options);
+    
+    // Write output to file or stdout; the status message goes to stderr
+    await writeDiagram(output, options.outputPath as string);
   } catch (error) {
+    if (error instanceof MetisError) {
+      console.error(`Error generating diagram (${error.code}): ${error.message}`);
+      process.exit(EXIT_CODES[error.code]);
+    }
+    
     console.error('Error generating diagram:', error);
     process.exit(1);
   }
 }
 
+// Stop quietly when the reader of stdout goes away early, e.g. `metis layouts | head`
+process.stdout.on('error', error => {
+  if ((error as NodeJS.ErrnoException).code === 'EPIPE') process.exit(0);
+  throw error;
+});
+
 run();
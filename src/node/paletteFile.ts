@@ -0,0 +1,27 @@
+import fs from 'fs/promises';
+import { ColorPalette, parsePalette } from '../config/index.js';
+import { InputError, errorMessage } from '../errors/index.js';
+
+/**
+ * Read a palette from a JSON file, such as a map of root node IDs to colors,
+ * a level map (`"0"`, `"1"`, ..., `"leaf"`) or a set of named palettes
+ *
+ * @param filePath - Path of the palette file
+ * @param name - Name of the palette to pick from a set of named palettes
+ * @returns The selected palette
+ * @throws InputError if the file cannot be read or holds no valid palette
+ */
+export async function loadPaletteFile(filePath: string, name?: string): Promise<ColorPalette> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new InputError(`Cannot read palette file ${filePath}: ${errorMessage(error)}`, { cause: error });
+  }
+
+  try {
+    return parsePalette(data, name);
+  } catch (error) {
+    throw new InputError(`Invalid palette file ${filePath}: ${errorMessage(error)}`, { cause: error });
+  }
+}
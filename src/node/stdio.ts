@@ -0,0 +1,80 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+
+/**
+ * File name that stands for stdin (as input) or stdout (as output)
+ */
+export const STDIO_PATH = '-';
+
+/**
+ * Standard streams used by the CLI, replaceable for testing
+ */
+export interface StdioStreams {
+  /** Read for the input file - */
+  stdin: Readable;
+
+  /** Receives the diagram for the output file - */
+  stdout: Writable & { isTTY?: boolean };
+
+  /** Receives status messages, so they never mix with diagram output */
+  stderr: Writable;
+}
+
+/**
+ * Read an input file as UTF-8 text, or all of stdin for -
+ *
+ * @param file - Input file path, relative to the working directory, or -
+ * @param streams - Standard streams (the process streams by default)
+ * @returns The input text
+ */
+export async function readInputText(file: string, streams: StdioStreams = processStreams()): Promise<string> {
+  if (file !== STDIO_PATH) {
+    return fs.readFile(path.resolve(process.cwd(), file), 'utf-8');
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of streams.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Write the generated diagram to a file, or to stdout for -, then report where it was
+ * written on stderr
+ *
+ * @param output - Generated diagram
+ * @param outputPath - Output file path, relative to the working directory, or -
+ * @param streams - Standard streams (the process streams by default)
+ * @returns Description of where the output was written
+ * @throws Error if binary output would be written to a terminal
+ */
+export async function writeDiagram(
+  output: string | Buffer,
+  outputPath: string,
+  streams: StdioStreams = processStreams()
+): Promise<string> {
+  let target: string;
+
+  if (outputPath === STDIO_PATH) {
+    if (typeof output !== 'string' && streams.stdout.isTTY) {
+      throw new Error('Refusing to write binary output to a terminal; redirect stdout or use --output <file>');
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      streams.stdout.write(output, error => (error ? reject(error) : resolve()));
+    });
+    target = 'stdout';
+  } else {
+    target = path.resolve(process.cwd(), outputPath);
+    await fs.writeFile(target, output);
+  }
+
+  streams.stderr.write(`Diagram successfully generated: ${target}\n`);
+  return target;
+}
+
+function processStreams(): StdioStreams {
+  return { stdin: process.stdin, stdout: process.stdout, stderr: process.stderr };
+}
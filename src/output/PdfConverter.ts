@@ -1,18 +1,31 @@
+import { ConversionError, errorMessage } from '../errors/index.js';
+import { PngConversionOptions } from './PngConverter.js';
+
 /**
  * Converts SVG to PDF format
  */
 export class PdfConverter {
+  private options: PngConversionOptions;
+  
+  /**
+   * @param options - Options for the intermediate PNG image
+   */
+  constructor(options: PngConversionOptions = {}) {
+    this.options = options;
+  }
+  
   /**
    * Convert SVG to PDF
    * 
    * @param svgString - SVG content as string
    * @returns PDF document as Buffer
+   * @throws ConversionError if @resvg/resvg-js or pdfkit is missing or conversion fails
    */
   async convert(svgString: string): Promise<Buffer> {
     try {
       // First convert to PNG as an intermediate step
       const { PngConverter } = await import('./PngConverter.js');
-      const pngConverter = new PngConverter();
+      const pngConverter = new PngConverter(this.options);
       const pngBuffer = await pngConverter.convert(svgString);
       
       // Now convert PNG to PDF using PDFKit
@@ -56,15 +69,22 @@ export class PdfConverter {
           });
           
           doc.on('error', (err) => {
-            reject(new Error(`PDF generation error: ${err}`));
+            reject(new ConversionError(`PDF generation error: ${errorMessage(err)}`, { cause: err }));
           });
         });
       } catch (pdfError) {
-        throw new Error(`PDF generation failed: ${pdfError}. Make sure pdfkit is installed correctly.`);
+        throw new ConversionError(
+          `PDF generation failed: ${errorMessage(pdfError)}. Make sure pdfkit is installed correctly.`,
+          { cause: pdfError }
+        );
       }
     } catch (error) {
-      console.error(`PDF conversion error: ${error}`);
-      throw new Error(`Failed to convert SVG to PDF: ${error}. This feature requires @resvg/resvg-js and pdfkit packages.`);
+      // PNG conversion errors already explain what is missing
+      if (error instanceof ConversionError) throw error;
+      throw new ConversionError(
+        `Failed to convert SVG to PDF: ${errorMessage(error)}. This feature requires @resvg/resvg-js and pdfkit packages.`,
+        { cause: error }
+      );
     }
   }
 }
@@ -1,12 +1,32 @@
+import { ConversionError, errorMessage } from '../errors/index.js';
+
+/**
+ * Options for PNG conversion
+ */
+export interface PngConversionOptions {
+  /** Zoom factor applied to the SVG size (defaults to 1) */
+  scale?: number;
+}
+
 /**
  * Converts SVG to PNG format
  */
 export class PngConverter {
+  private scale: number;
+  
+  /**
+   * @param options - Conversion options
+   */
+  constructor(options: PngConversionOptions = {}) {
+    this.scale = options.scale ?? 1;
+  }
+  
   /**
    * Convert SVG to PNG
    * 
    * @param svgString - SVG content as string
    * @returns PNG image as Buffer
+   * @throws ConversionError if @resvg/resvg-js is missing or cannot render the SVG
    */
   async convert(svgString: string): Promise<Buffer> {
     try {
@@ -14,7 +34,7 @@ export class PngConverter {
       const { Resvg } = await import('@resvg/resvg-js');
       
       // Create a new Resvg instance
-      const resvg = new Resvg(svgString);
+      const resvg = new Resvg(svgString, this.scale === 1 ? undefined : { fitTo: { mode: 'zoom', value: this.scale } });
       
       // Render to PNG
       const pngData = resvg.render();
@@ -22,8 +42,10 @@ export class PngConverter {
       
       return pngBuffer;
     } catch (error) {
-      console.error(`PNG conversion error: ${error}`);
-      throw new Error(`Failed to convert SVG to PNG: ${error}. Note: This feature requires the @resvg/resvg-js package. Make sure it's installed correctly.`);
+      throw new ConversionError(
+        `Failed to convert SVG to PNG: ${errorMessage(error)}. Note: This feature requires the @resvg/resvg-js package. Make sure it's installed correctly.`,
+        { cause: error }
+      );
     }
   }
 }
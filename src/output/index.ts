@@ -1,36 +1,71 @@
 export * from './PngConverter.js';
 export * from './PdfConverter.js';
+export * from './registry.js';
 
 import { PngConverter } from './PngConverter.js';
 import { PdfConverter } from './PdfConverter.js';
-import { OutputFormat } from '../types/index.js';
+import { findOutputFormat, OutputFormatOptions, registerOutputFormat } from './registry.js';
+import { OptionSchema, OutputFormat } from '../types/index.js';
+import { ConversionError } from '../errors/index.js';
+
+// Options of the raster-based formats
+const SCALE_OPTION: Record<string, OptionSchema> = {
+  scale: { type: 'number', description: 'Zoom factor applied to the diagram size', default: 1 }
+};
+
+registerOutputFormat('svg', {
+  mimeType: 'image/svg+xml',
+  extension: '.svg',
+  description: 'Scalable vector graphics',
+  convert: svgString => svgString
+});
+
+registerOutputFormat('png', {
+  mimeType: 'image/png',
+  extension: '.png',
+  description: 'PNG image (requires @resvg/resvg-js)',
+  options: SCALE_OPTION,
+  convert: (svgString, options) => new PngConverter({ scale: options.scale as number | undefined }).convert(svgString)
+});
+
+registerOutputFormat('pdf', {
+  mimeType: 'application/pdf',
+  extension: '.pdf',
+  description: 'PDF document (requires @resvg/resvg-js and pdfkit)',
+  options: SCALE_OPTION,
+  convert: (svgString, options) => new PdfConverter({ scale: options.scale as number | undefined }).convert(svgString)
+});
+
+registerOutputFormat('json', {
+  mimeType: 'application/json',
+  extension: '.json',
+  description: 'Computed layout without rendering, for drawing with another renderer',
+  convertLayout: layout => JSON.stringify(layout, null, 2)
+});
 
 /**
  * Convert SVG to the requested output format
  * 
  * @param svgString - SVG content as string
  * @param format - Desired output format
+ * @param options - Options for the format's converter
  * @returns Output in the requested format
+ * @throws ConversionError if the format is unknown, does not convert SVG, or conversion fails
  */
 export async function convertOutput(
   svgString: string, 
-  format: OutputFormat
+  format: OutputFormat,
+  options: OutputFormatOptions = {}
 ): Promise<string | Buffer> {
-  switch (format) {
-    case 'svg':
-      return svgString;
-      
-    case 'png': {
-      const converter = new PngConverter();
-      return await converter.convert(svgString);
-    }
-    
-    case 'pdf': {
-      const converter = new PdfConverter();
-      return await converter.convert(svgString);
-    }
-    
-    default:
-      throw new Error(`Unsupported output format: ${format}`);
+  const definition = findOutputFormat(format);
+  
+  if (!definition) {
+    throw new ConversionError(`Unsupported output format: ${format}`);
+  }
+  
+  if (!definition.convert) {
+    throw new ConversionError(`Output format ${format} is created from the layout, not from SVG`);
   }
+  
+  return await definition.convert(svgString, options);
 }
@@ -0,0 +1,111 @@
+import { LayoutResult, OptionSchema } from '../types/index.js';
+
+/**
+ * Options passed to a converter, keyed by option name
+ */
+export type OutputFormatOptions = Record<string, unknown>;
+
+/**
+ * Definition of an output format.
+ * Formats convert either the rendered SVG (`convert`) or, to skip SVG rendering
+ * entirely, the computed layout (`convertLayout`).
+ */
+export interface OutputFormatDefinition {
+  /** MIME type of the output, e.g. `image/png` */
+  mimeType: string;
+  
+  /** File extension including the dot, e.g. `.png` */
+  extension: string;
+  
+  /** Short description of the format */
+  description?: string;
+  
+  /** Options the converter supports, for listing and parsing CLI values */
+  options?: Record<string, OptionSchema>;
+  
+  /** Convert the rendered SVG to this format */
+  convert?: (svgString: string, options: OutputFormatOptions) => Promise<string | Buffer> | string | Buffer;
+  
+  /** Convert the computed layout to this format, without rendering SVG */
+  convertLayout?: (layout: LayoutResult, options: OutputFormatOptions) => Promise<string | Buffer> | string | Buffer;
+}
+
+/**
+ * A registered output format, as listed by listOutputFormats
+ */
+export interface OutputFormatInfo {
+  /** Name that selects the format */
+  name: string;
+  
+  /** Short description of the format */
+  description: string;
+  
+  /** MIME type of the output */
+  mimeType: string;
+  
+  /** File extension including the dot */
+  extension: string;
+  
+  /** Options the converter supports */
+  options: Record<string, OptionSchema>;
+}
+
+// Registered formats in registration order, keyed by name
+const formats = new Map<string, OutputFormatDefinition>();
+
+/**
+ * Register an output format so it can be selected by name with the `format` option.
+ * Registering an existing name replaces that format.
+ * 
+ * @param name - Name that selects the format
+ * @param definition - MIME type, file extension, options and converter
+ * @throws Error if the definition has no converter
+ */
+export function registerOutputFormat(name: string, definition: OutputFormatDefinition): void {
+  if (!definition.convert && !definition.convertLayout) {
+    throw new Error(`Output format "${name}" must define convert or convertLayout`);
+  }
+  
+  formats.set(name, { ...definition });
+}
+
+/**
+ * Find a registered output format
+ * 
+ * @param name - Format name
+ * @returns The format definition, or undefined if no format has that name
+ */
+export function findOutputFormat(name: string): OutputFormatDefinition | undefined {
+  return formats.get(name);
+}
+
+/**
+ * Find the output format that writes files with the given extension
+ * 
+ * @param extension - File extension, with or without the dot (case-insensitive)
+ * @returns The name of the first format registered for the extension, if any
+ */
+export function findOutputFormatByExtension(extension: string): string | undefined {
+  const normalized = (extension.startsWith('.') ? extension : `.${extension}`).toLowerCase();
+  
+  for (const [name, definition] of formats) {
+    if (definition.extension.toLowerCase() === normalized) return name;
+  }
+  
+  return undefined;
+}
+
+/**
+ * List the registered output formats
+ * 
+ * @returns Registered formats, in registration order
+ */
+export function listOutputFormats(): OutputFormatInfo[] {
+  return Array.from(formats.entries()).map(([name, definition]) => ({
+    name,
+    description: definition.description ?? '',
+    mimeType: definition.mimeType,
+    extension: definition.extension,
+    options: { ...definition.options }
+  }));
+}
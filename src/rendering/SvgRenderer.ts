@@ -1,5 +1,11 @@
-import { TreeNode, StyleOptions } from '../types/index.js';
+import { TreeNode, StyleOptions, WarningHandler } from '../types/index.js';
 import { getDefaultMutedColorPalette } from '../utils/styleUtils.js';
+import { consoleWarningHandler } from '../utils/warnings.js';
+import { BREADCRUMB_SEPARATOR, calculateFontSize, calculateMaxDepth, wrapText } from './labels.js';
+import { RenderError, errorMessage } from '../errors/index.js';
+
+// Opacity of nodes that are greyed out because they do not match the filter
+const DIMMED_OPACITY = 0.3;
 
 /**
  * Renderer that outputs SVG format
@@ -11,6 +17,7 @@ export class SvgRenderer {
 
   // Default style options
   private static readonly DEFAULT_STYLE: Required<StyleOptions> = {
+    theme: 'default',
     fontFamily: 'Arial, sans-serif',
     fontSize: 14,
     fontColor: '#000000',
@@ -29,16 +36,18 @@ export class SvgRenderer {
   private style: Required<StyleOptions>;
   private leafColor: string | null = null;
   private levelColors: string[] = [];
-  private fontSizeScale: number = 1.2; // Scale factor between hierarchy levels
   private maxDepth: number = 0; // To be calculated during first render pass
+  private warn: WarningHandler;
 
   /**
    * Create a new SVG renderer
    *
    * @param styleOptions - Style configuration options
+   * @param onWarning - Handler for rendering diagnostics (logs to the console by default)
    */
-  constructor(styleOptions: StyleOptions = {}) {
+  constructor(styleOptions: StyleOptions = {}, onWarning: WarningHandler = consoleWarningHandler) {
     this.style = { ...SvgRenderer.DEFAULT_STYLE, ...styleOptions };
+    this.warn = onWarning;
 
     // Initialize level colors from palette if available
     if (this.style.colorPalette && Object.keys(this.style.colorPalette).length > 0) {
@@ -55,9 +64,10 @@ export class SvgRenderer {
    * @param rootNodes - Root nodes with layout information
    * @param width - Width of the diagram
    * @param height - Height of the diagram
+   * @param breadcrumb - Ancestor names to show as a header above the nodes
    * @returns SVG string representation
    */
-  async render(rootNodes: TreeNode[], width: number, height: number): Promise<string> {
+  async render(rootNodes: TreeNode[], width: number, height: number, breadcrumb: string[] = []): Promise<string> {
     // Initialize SVG.js (differently for Node.js and browser)
     await this.initializeSvg();
 
@@ -65,7 +75,11 @@ export class SvgRenderer {
     this.document = this.svg.SVG().size(width, height);
     
     // Calculate the maximum depth in the hierarchy tree
-    this.maxDepth = this.calculateMaxDepth(rootNodes);
+    this.maxDepth = calculateMaxDepth(rootNodes);
+
+    if (breadcrumb.length > 0) {
+      this.renderBreadcrumb(breadcrumb);
+    }
 
     // Render each root node and its children
     for (const root of rootNodes) {
@@ -93,8 +107,7 @@ export class SvgRenderer {
         try {
           this.svg = await import('@svgdotjs/svg.js');
         } catch (err) {
-          console.error('Error loading SVG.js:', err);
-          throw new Error('Failed to load SVG.js. Make sure it is included in your HTML or properly bundled.');
+          throw new RenderError('Failed to load SVG.js. Make sure it is included in your HTML or properly bundled.', { cause: err });
         }
       }
     } else {
@@ -111,8 +124,7 @@ export class SvgRenderer {
 
         this.svg = { SVG };
       } catch (err) {
-        console.error('Error loading SVG.js or svgdom:', err);
-        throw new Error('Failed to load required libraries for Node.js rendering.');
+        throw new RenderError(`Failed to load required libraries for Node.js rendering: ${errorMessage(err)}`, { cause: err });
       }
     }
   }
@@ -138,7 +150,11 @@ export class SvgRenderer {
    */
   private renderNode(node: TreeNode, level: number): void {
     if (!node.layout) {
-      console.warn(`Node ${node.data.id} has no layout information`);
+      this.warn({
+        code: 'MISSING_LAYOUT',
+        message: `Node ${node.data.id} has no layout information`,
+        nodeId: node.data.id
+      });
       return;
     }
 
@@ -146,12 +162,13 @@ export class SvgRenderer {
 
     // Create a group for this node
     const group = this.document.group();
+    this.addNodeMetadata(group, node);
 
     // Determine if this is a leaf node (no children)
     const isLeaf = node.children.length === 0;
     
     // Calculate appropriate font size based on node depth
-    const fontSize = this.calculateFontSize(isLeaf, level);
+    const fontSize = calculateFontSize(this.style.fontSize, isLeaf, level, this.maxDepth);
 
     // Determine background color based on styling options
     let bgColor = this.style.backgroundColor;
@@ -250,6 +267,51 @@ export class SvgRenderer {
     }
   }
 
+  /**
+   * Render the ancestor path of a focused diagram in the header above the nodes
+   *
+   * @param breadcrumb - Ancestor names, from the top of the hierarchy
+   */
+  private renderBreadcrumb(breadcrumb: string[]): void {
+    this.document.text(breadcrumb.join(BREADCRUMB_SEPARATOR))
+      .font({
+        family: this.style.fontFamily,
+        size: this.style.fontSize,
+        anchor: 'start'
+      })
+      .attr('dominant-baseline', 'hanging')
+      .attr('class', 'breadcrumb')
+      .fill(this.style.fontColor)
+      .move(this.style.padding, this.style.padding);
+  }
+
+  /**
+   * Expose node metadata on its SVG group: a tooltip with the name and description,
+   * and data attributes carrying the ID, tags and properties for styling and scripting
+   *
+   * @param group - SVG group of the node
+   * @param node - The node being rendered
+   */
+  private addNodeMetadata(group: any, node: TreeNode): void {
+    const { id, name, description, tags, properties } = node.data;
+
+    group.attr('data-id', id);
+
+    if (node.dimmed) {
+      group.attr('data-dimmed', 'true').opacity(DIMMED_OPACITY);
+    }
+
+    if (tags && tags.length > 0) {
+      group.attr('data-tags', tags.join(' '));
+    }
+
+    if (properties && Object.keys(properties).length > 0) {
+      group.attr('data-properties', JSON.stringify(properties));
+    }
+
+    group.element('title').words(description ? `${name}\n${description}` : name);
+  }
+
   /**
    * Render text with word wrapping, centered horizontally and vertically
    * within the node's bounds for fixed-width nodes.
@@ -267,31 +329,7 @@ export class SvgRenderer {
     const effectiveWidth = width - (this.style.padding * 2);
     const lineHeight = fontSize * 1.2;
     
-    // Split the text into words
-    const words = text.split(' ');
-    const lines: string[] = [];
-    let currentLine = '';
-    
-    // Calculate line breaks
-    for (let i = 0; i < words.length; i++) {
-      const word = words[i];
-      const testLine = currentLine ? `${currentLine} ${word}` : word;
-      
-      // Check if adding this word would exceed the width
-      const estimatedWidth = this.estimateTextWidth(testLine, fontSize, this.style.fontFamily);
-      
-      if (estimatedWidth > effectiveWidth && i > 0) {
-        lines.push(currentLine);
-        currentLine = word;
-      } else {
-        currentLine = testLine;
-      }
-    }
-    
-    // Add the last line if there's anything left
-    if (currentLine) {
-      lines.push(currentLine);
-    }
+    const lines = wrapText(text, effectiveWidth, fontSize);
     
     // Calculate vertical position to center the text block
     const totalTextHeight = lines.length * lineHeight;
@@ -323,89 +361,4 @@ export class SvgRenderer {
       textElement.move(centeredX, lineY).opacity(1);
     });
   }
-
-  /**
-   * Estimate width of text for wrapping calculations
-   * This is a simple estimate as exact measurement depends on the font
-   *
-   * @param text - Text to measure
-   * @param fontSize - Font size
-   * @param fontFamily - Font family
-   * @returns Estimated width in pixels
-   */
-  private estimateTextWidth(text: string, fontSize: number, fontFamily: string): number {
-    // More accurate estimation of text width
-    // Different characters have different widths, so we account for that
-    const charWidthFactors: Record<string, number> = {
-      // Wide characters
-      'w': 0.9, 'm': 1.0, 'W': 1.1, 'M': 1.2,
-      // Medium characters
-      'a': 0.7, 'b': 0.7, 'c': 0.7, 'd': 0.7, 'e': 0.7, 'g': 0.7, 'h': 0.7, 'k': 0.7,
-      'n': 0.7, 'o': 0.7, 'p': 0.7, 'q': 0.7, 'u': 0.7, 'v': 0.7, 'x': 0.7, 'y': 0.7,
-      'z': 0.7, 'A': 0.9, 'B': 0.8, 'C': 0.8, 'D': 0.9, 'E': 0.8, 'F': 0.7,
-      'G': 0.9, 'H': 0.9, 'K': 0.8, 'N': 0.9, 'O': 0.9, 'P': 0.8, 'Q': 0.9,
-      'R': 0.8, 'S': 0.8, 'U': 0.9, 'V': 0.9, 'X': 0.8, 'Y': 0.8, 'Z': 0.8,
-      // Narrow characters
-      'i': 0.4, 'j': 0.4, 'l': 0.4, 'r': 0.4, 's': 0.5, 't': 0.4, 'I': 0.4, 'J': 0.5,
-      'L': 0.6, 'T': 0.7,
-      // Numbers
-      '0': 0.7, '1': 0.5, '2': 0.7, '3': 0.7, '4': 0.7, '5': 0.7, '6': 0.7, '7': 0.7,
-      '8': 0.7, '9': 0.7,
-      // Special characters
-      ' ': 0.4, '-': 0.5, '.': 0.3, ',': 0.3, ':': 0.3, ';': 0.3, '!': 0.4,
-      '?': 0.7, '(': 0.5, ')': 0.5, '/': 0.5, '\\': 0.5, '&': 0.9
-    };
-
-    // Calculate width based on character width factors
-    let totalWidth = 0;
-    for (const char of text) {
-      // Use the character's width factor if defined, or use a default factor
-      const factor = charWidthFactors[char] || 0.7;
-      totalWidth += fontSize * factor;
-    }
-
-    // Add a small buffer (e.g., 2-5%) for better wrapping reliability,
-    // as font rendering can vary slightly.
-    return totalWidth * 1.02 - 2; // Slightly reduce buffer and subtract 2px for better centering
-  }
-
-  /**
-   * Calculate the maximum depth of the hierarchy
-   * 
-   * @param rootNodes - Root nodes of the tree
-   * @returns Maximum depth of the hierarchy
-   */
-  private calculateMaxDepth(rootNodes: TreeNode[]): number {
-    let maxDepth = 0;
-    
-    const traverseNode = (node: TreeNode, currentDepth: number) => {
-      maxDepth = Math.max(maxDepth, currentDepth);
-      node.children.forEach(child => traverseNode(child, currentDepth + 1));
-    };
-    
-    rootNodes.forEach(root => traverseNode(root, 0));
-    
-    return maxDepth;
-  }
-
-  /**
-   * Calculate the font size based on node depth
-   * Leaf nodes use the configured fontSize
-   * Non-leaf nodes use a larger font size based on their depth
-   * 
-   * @param isLeaf - Whether the node is a leaf node
-   * @param level - Current level in the hierarchy (0 = root)
-   * @returns Font size in pixels
-   */
-  private calculateFontSize(isLeaf: boolean, level: number): number {
-    if (isLeaf) {
-      return this.style.fontSize; // Use configured font size for leaf nodes
-    }
-    
-    // For non-leaf nodes, scale font size based on level
-    // Higher levels (closer to root) get larger font sizes
-    // Start from the leaf font size and work backwards
-    const levelsFromLeaf = Math.max(0, this.maxDepth - level);
-    return this.style.fontSize * Math.pow(this.fontSizeScale, levelsFromLeaf);
-  }
-}
\ No newline at end of file
+}
@@ -1 +1,2 @@
 export * from './SvgRenderer.js';
+export * from './labels.js';
@@ -0,0 +1,189 @@
+import { StyleOptions, TreeNode } from '../types/index.js';
+import { DEFAULT_STYLE_OPTIONS } from '../config/index.js';
+
+// Scale factor between the font sizes of consecutive hierarchy levels
+export const FONT_SIZE_SCALE = 1.2;
+
+// Separator between the ancestor names of the breadcrumb header
+export const BREADCRUMB_SEPARATOR = ' › ';
+
+/**
+ * Estimate width of text for wrapping calculations
+ * This is a simple estimate as exact measurement depends on the font
+ *
+ * @param text - Text to measure
+ * @param fontSize - Font size
+ * @returns Estimated width in pixels
+ */
+export function estimateTextWidth(text: string, fontSize: number): number {
+  // More accurate estimation of text width
+  // Different characters have different widths, so we account for that
+  const charWidthFactors: Record<string, number> = {
+    // Wide characters
+    'w': 0.9, 'm': 1.0, 'W': 1.1, 'M': 1.2,
+    // Medium characters
+    'a': 0.7, 'b': 0.7, 'c': 0.7, 'd': 0.7, 'e': 0.7, 'g': 0.7, 'h': 0.7, 'k': 0.7,
+    'n': 0.7, 'o': 0.7, 'p': 0.7, 'q': 0.7, 'u': 0.7, 'v': 0.7, 'x': 0.7, 'y': 0.7,
+    'z': 0.7, 'A': 0.9, 'B': 0.8, 'C': 0.8, 'D': 0.9, 'E': 0.8, 'F': 0.7,
+    'G': 0.9, 'H': 0.9, 'K': 0.8, 'N': 0.9, 'O': 0.9, 'P': 0.8, 'Q': 0.9,
+    'R': 0.8, 'S': 0.8, 'U': 0.9, 'V': 0.9, 'X': 0.8, 'Y': 0.8, 'Z': 0.8,
+    // Narrow characters
+    'i': 0.4, 'j': 0.4, 'l': 0.4, 'r': 0.4, 's': 0.5, 't': 0.4, 'I': 0.4, 'J': 0.5,
+    'L': 0.6, 'T': 0.7,
+    // Numbers
+    '0': 0.7, '1': 0.5, '2': 0.7, '3': 0.7, '4': 0.7, '5': 0.7, '6': 0.7, '7': 0.7,
+    '8': 0.7, '9': 0.7,
+    // Special characters
+    ' ': 0.4, '-': 0.5, '.': 0.3, ',': 0.3, ':': 0.3, ';': 0.3, '!': 0.4,
+    '?': 0.7, '(': 0.5, ')': 0.5, '/': 0.5, '\\': 0.5, '&': 0.9
+  };
+
+  // Calculate width based on character width factors
+  let totalWidth = 0;
+  for (const char of text) {
+    // Use the character's width factor if defined, or use a default factor
+    const factor = charWidthFactors[char] || 0.7;
+    totalWidth += fontSize * factor;
+  }
+
+  // Add a small buffer (e.g., 2-5%) for better wrapping reliability,
+  // as font rendering can vary slightly.
+  return totalWidth * 1.02 - 2; // Slightly reduce buffer and subtract 2px for better centering
+}
+
+/**
+ * Break text into lines at word boundaries so each line fits the given width.
+ * Words longer than the width are kept on a line of their own.
+ *
+ * @param text - Text to wrap
+ * @param maxWidth - Available width in pixels
+ * @param fontSize - Font size
+ * @returns Lines of text
+ */
+export function wrapText(text: string, maxWidth: number, fontSize: number): string[] {
+  // Split the text into words
+  const words = text.split(' ');
+  const lines: string[] = [];
+  let currentLine = '';
+  
+  // Calculate line breaks
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    const testLine = currentLine ? `${currentLine} ${word}` : word;
+    
+    // Check if adding this word would exceed the width
+    if (estimateTextWidth(testLine, fontSize) > maxWidth && i > 0) {
+      lines.push(currentLine);
+      currentLine = word;
+    } else {
+      currentLine = testLine;
+    }
+  }
+  
+  // Add the last line if there's anything left
+  if (currentLine) {
+    lines.push(currentLine);
+  }
+  
+  return lines;
+}
+
+/**
+ * Calculate the maximum depth of the hierarchy
+ * 
+ * @param rootNodes - Root nodes of the tree
+ * @returns Maximum depth of the hierarchy
+ */
+export function calculateMaxDepth(rootNodes: TreeNode[]): number {
+  let maxDepth = 0;
+  
+  const traverseNode = (node: TreeNode, currentDepth: number) => {
+    maxDepth = Math.max(maxDepth, currentDepth);
+    node.children.forEach(child => traverseNode(child, currentDepth + 1));
+  };
+  
+  rootNodes.forEach(root => traverseNode(root, 0));
+  
+  return maxDepth;
+}
+
+/**
+ * Calculate the font size based on node depth
+ * Leaf nodes use the configured fontSize
+ * Non-leaf nodes use a larger font size based on their depth
+ * 
+ * @param fontSize - Configured (leaf) font size
+ * @param isLeaf - Whether the node is a leaf node
+ * @param level - Current level in the hierarchy (0 = root)
+ * @param maxDepth - Maximum depth of the hierarchy
+ * @returns Font size in pixels
+ */
+export function calculateFontSize(fontSize: number, isLeaf: boolean, level: number, maxDepth: number): number {
+  if (isLeaf) {
+    return fontSize; // Use configured font size for leaf nodes
+  }
+  
+  // For non-leaf nodes, scale font size based on level
+  // Higher levels (closer to root) get larger font sizes
+  // Start from the leaf font size and work backwards
+  const levelsFromLeaf = Math.max(0, maxDepth - level);
+  return fontSize * Math.pow(FONT_SIZE_SCALE, levelsFromLeaf);
+}
+
+/**
+ * Get the lines of a node's label as the renderer draws them.
+ * Leaf nodes are wrapped when a fixed leaf width is set; other labels use a single line.
+ * 
+ * @param node - Node with layout information
+ * @param fontSize - Font size of the label
+ * @param style - Style options
+ * @returns Lines of the label
+ */
+export function getLabelLines(
+  node: TreeNode,
+  fontSize: number,
+  style: Pick<StyleOptions, 'leafNodeWidth' | 'padding'>
+): string[] {
+  if (node.children.length === 0 && style.leafNodeWidth && node.layout) {
+    return wrapText(node.data.name, node.layout.width - (style.padding ?? 0) * 2, fontSize);
+  }
+  
+  return [node.data.name];
+}
+
+/**
+ * Move every node down to make room for the breadcrumb header shown above a
+ * focused diagram, widening the diagram if the header is wider than the nodes
+ *
+ * @param rootNodes - Root nodes with layout information (moved in place)
+ * @param dimensions - Diagram dimensions without the header
+ * @param breadcrumb - Ancestor names shown in the header
+ * @param style - Style options, for the header font size and padding
+ * @returns The dimensions of the diagram including the header
+ */
+export function addBreadcrumbHeader(
+  rootNodes: TreeNode[],
+  dimensions: { width: number; height: number },
+  breadcrumb: string[],
+  style: StyleOptions = {}
+): { width: number; height: number } {
+  const fontSize = style.fontSize ?? DEFAULT_STYLE_OPTIONS.fontSize;
+  const padding = style.padding ?? DEFAULT_STYLE_OPTIONS.padding;
+  const headerHeight = fontSize * 1.2 + padding * 2;
+
+  const moveDown = (node: TreeNode) => {
+    if (node.layout) {
+      node.layout.y += headerHeight;
+      if (node.layout.contentArea) {
+        node.layout.contentArea.y += headerHeight;
+      }
+    }
+    node.children.forEach(moveDown);
+  };
+  rootNodes.forEach(moveDown);
+
+  return {
+    width: Math.max(dimensions.width, estimateTextWidth(breadcrumb.join(BREADCRUMB_SEPARATOR), fontSize) + padding * 2),
+    height: dimensions.height + headerHeight
+  };
+}
@@ -1,11 +1,65 @@
 export * from './input.js';
 export * from './layout.js';
 export * from './style.js';
+export * from './validation.js';
+export * from './result.js';
 
 /**
- * Output format options
+ * Name of a registered output format. Built in are `svg`, `png`, `pdf` and
+ * `json` (the computed layout); more can be added with `registerOutputFormat`.
  */
-export type OutputFormat = 'svg' | 'png' | 'pdf';
+export type OutputFormat = string;
+
+/**
+ * Input format options
+ */
+export type InputFormat =
+  | 'json'
+  | 'nested'
+  | 'yaml'
+  | 'csv'
+  | 'tsv'
+  | 'outline'
+  | 'paths'
+  | 'mermaid'
+  | 'opml'
+  | 'archimate'
+  | 'skos';
+
+/**
+ * How to handle nodes whose parent does not exist:
+ *  - `error`: reject the input
+ *  - `drop`: leave out the node and its descendants
+ *  - `promote-to-root`: render the node as a root
+ *  - `attach-to`: place the node under a synthetic root (see `orphanRootName`)
+ */
+export type OrphanPolicy = 'error' | 'drop' | 'promote-to-root' | 'attach-to';
+
+/**
+ * Tells whether a node matches a filter
+ */
+export type NodePredicate = (node: import('./input.js').HierarchyNode) => boolean;
+
+/**
+ * What happens to nodes that do not match the filter (and have no matching descendants):
+ *  - `hide`: leave them out
+ *  - `dim`: show them greyed out
+ */
+export type FilterMode = 'hide' | 'dim';
+
+/**
+ * Description of an option supported by a layout engine or output format
+ */
+export interface OptionSchema {
+  /** Type of the option value */
+  type: 'number' | 'string' | 'boolean';
+  
+  /** What the option controls */
+  description: string;
+  
+  /** Value used when the option is not set */
+  default?: number | string | boolean;
+}
 
 /**
  * Complete configuration options for the diagram generator
@@ -20,6 +74,56 @@ export interface DiagramOptions {
   /** Output format */
   format?: OutputFormat;
   
+  /** Options for the output format's converter, e.g. `{ scale: 2 }` for PNG */
+  formatOptions?: Record<string, unknown>;
+  
   /** Output path (for CLI) */
   outputPath?: string;
+  
+  /** How to handle nodes whose parent does not exist */
+  orphanPolicy?: OrphanPolicy;
+  
+  /** Name of the synthetic root used by the `attach-to` orphan policy */
+  orphanRootName?: string;
+  
+  /** ID of the node (or nodes) to show as the root(s), leaving out the rest of the tree */
+  focus?: string | string[];
+  
+  /** Number of levels to show below the root(s); deeper nodes are left out */
+  maxDepth?: number;
+  
+  /** Show the ancestor path of the focused node(s) as a header above the diagram */
+  breadcrumb?: boolean;
+  
+  /**
+   * Show only the nodes that match, and their ancestors: a predicate, or a filter
+   * expression such as `tag:regulatory and status=target` (see `parseFilterExpression`)
+   */
+  filter?: string | NodePredicate;
+  
+  /** Whether nodes that do not match the filter are hidden or shown greyed out */
+  filterMode?: FilterMode;
+}
+
+/**
+ * A diagram definition bundling hierarchy nodes with their diagram options
+ */
+export interface DiagramDocument {
+  /** Flat array of hierarchy nodes */
+  nodes: import('./input.js').HierarchyNode[];
+  
+  /** Diagram options declared alongside the nodes */
+  options: DiagramOptions;
+}
+
+/**
+ * Contents of a configuration file: options shared by every diagram, plus
+ * named profiles that override them
+ */
+export interface DiagramConfig {
+  /** Options applied to every diagram */
+  options: DiagramOptions;
+  
+  /** Named option sets, selected with the CLI `--profile` flag */
+  profiles: Record<string, DiagramOptions>;
 }
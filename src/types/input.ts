@@ -10,4 +10,69 @@ export interface HierarchyNode {
   
   /** Parent node ID, or null for root nodes */
   parent: string | null;
+  
+  /** Longer description (shown as a tooltip) */
+  description?: string;
+  
+  /** Free-form tags for styling and filtering */
+  tags?: string[];
+  
+  /** Additional metadata, e.g. owner, status or maturity */
+  properties?: Record<string, NodePropertyValue>;
+  
+  /** Position among siblings when sorting by `order` */
+  order?: number;
+}
+
+/**
+ * Value of a free-form node property
+ */
+export type NodePropertyValue = string | number | boolean;
+
+/**
+ * Represents a node in nested tree input, where children are listed inline
+ */
+export interface NestedHierarchyNode {
+  /** Unique identifier (generated from the name path if omitted) */
+  id?: string;
+  
+  /** Display name for the node */
+  name: string;
+  
+  /** Longer description (shown as a tooltip) */
+  description?: string;
+  
+  /** Free-form tags for styling and filtering */
+  tags?: string[];
+  
+  /** Additional metadata, e.g. owner, status or maturity */
+  properties?: Record<string, NodePropertyValue>;
+  
+  /** Position among siblings when sorting by `order` */
+  order?: number;
+  
+  /** Child nodes */
+  children?: NestedHierarchyNode[];
+}
+
+/**
+ * Hierarchy data accepted by the generator: a flat node list or nested tree(s)
+ */
+export type HierarchyInput = HierarchyNode[] | NestedHierarchyNode | NestedHierarchyNode[];
+
+/**
+ * One of several hierarchies to be composed into a single diagram
+ */
+export interface HierarchySource {
+  /** Name of the source (e.g. its file name), used when reporting problems */
+  name: string;
+  
+  /** Flat array of hierarchy nodes from this source */
+  nodes: HierarchyNode[];
+  
+  /** ID of the node (in the composed hierarchy) to mount this source's root nodes under */
+  mountAt?: string;
+  
+  /** Prefix for this source's node IDs, joined with '/' */
+  namespace?: string;
 }
@@ -1,13 +1,11 @@
+import { HierarchyNode } from './input.js';
+
 /**
  * Represents a node in the processed tree structure
  */
 export interface TreeNode {
-  /** Original node data */
-  data: {
-    id: string;
-    name: string;
-    parent: string | null;
-  };
+  /** Original node data, including description, tags and properties */
+  data: HierarchyNode;
   
   /** Direct children of this node */
   children: TreeNode[];
@@ -17,6 +15,9 @@ export interface TreeNode {
   
   /** Calculated layout information */
   layout?: NodeLayout;
+  
+  /** Shown greyed out because neither the node nor its descendants match the filter */
+  dimmed?: boolean;
 }
 
 /**
@@ -68,4 +69,21 @@ export interface LayoutOptions {
   
   /** The type of layout algorithm to use */
   layoutType?: string;
+  
+  /** How sibling nodes are ordered before layout */
+  sortChildren?: SortStrategy;
+  
+  /** Keep sibling order as sorted; engines must not reorder children to improve fit */
+  preserveOrder?: boolean;
 }
+
+/**
+ * Strategy for ordering sibling nodes:
+ *  - `input`: order of the input data
+ *  - `order`: ascending `order` field, nodes without one last (in input order)
+ *  - `name`: alphabetical by name
+ *  - `size`: largest first, by the numeric `size` property if a node has one, otherwise by
+ *    number of descendants
+ *  - a custom comparator
+ */
+export type SortStrategy = 'input' | 'order' | 'name' | 'size' | ((a: TreeNode, b: TreeNode) => number);
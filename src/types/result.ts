@@ -0,0 +1,178 @@
+import { DiagramOptions } from './index.js';
+
+/**
+ * Kinds of diagnostics reported while generating a diagram.
+ * `MISSING_PARENT` is an orphan resolved by the orphan policy, with the same code that
+ * validateHierarchy reports it under.
+ */
+export type DiagramWarningCode =
+  | 'MISSING_PARENT'
+  | 'UNKNOWN_LAYOUT_TYPE'
+  | 'LAYOUT_FALLBACK'
+  | 'TEXT_MEASUREMENT_ESTIMATED'
+  | 'MISSING_LAYOUT'
+  | 'UNCOLORED_ROOTS'
+  | 'UNKNOWN_THEME';
+
+/**
+ * A non-fatal problem encountered while generating a diagram
+ */
+export interface DiagramWarning {
+  /** Machine-readable warning code */
+  code: DiagramWarningCode;
+  
+  /** Human-readable description */
+  message: string;
+  
+  /** ID of the affected node, if any */
+  nodeId?: string;
+}
+
+/**
+ * Callback that receives diagnostics from layout engines and renderers
+ */
+export type WarningHandler = (warning: DiagramWarning) => void;
+
+/**
+ * Final position and size of a single node
+ */
+export interface NodeLayoutEntry {
+  /** Node ID */
+  id: string;
+  
+  /** Parent node ID, or null for root nodes */
+  parent: string | null;
+  
+  /** Depth in the hierarchy (0 = root) */
+  depth: number;
+  
+  /** X coordinate */
+  x: number;
+  
+  /** Y coordinate */
+  y: number;
+  
+  /** Width */
+  width: number;
+  
+  /** Height */
+  height: number;
+}
+
+/**
+ * A rectangle in diagram coordinates
+ */
+export interface LayoutBox {
+  /** X coordinate (top-left corner) */
+  x: number;
+  
+  /** Y coordinate (top-left corner) */
+  y: number;
+  
+  /** Width */
+  width: number;
+  
+  /** Height */
+  height: number;
+}
+
+/**
+ * A node with everything needed to draw it
+ */
+export interface PositionedNode extends NodeLayoutEntry {
+  /** Display name */
+  name: string;
+  
+  /** Area reserved for the node's children, as reported by the layout engine */
+  contentArea: LayoutBox;
+  
+  /** Font size of the label */
+  fontSize: number;
+  
+  /** Label text, broken into lines as the SVG renderer draws it */
+  labelLines: string[];
+  
+  /** Whether the node is shown greyed out because it does not match the filter */
+  dimmed: boolean;
+}
+
+/**
+ * Serializable result of laying out a hierarchy without rendering it
+ */
+export interface LayoutResult {
+  /** Diagram width */
+  width: number;
+  
+  /** Diagram height */
+  height: number;
+  
+  /** Registered name of the layout engine used, e.g. `grid` */
+  engine: string;
+  
+  /** Every node, in depth-first order */
+  nodes: PositionedNode[];
+  
+  /**
+   * Names of the ancestors of the focused node(s), shown as a header above the
+   * nodes when the `breadcrumb` option is set (empty otherwise)
+   */
+  breadcrumb: string[];
+  
+  /** Diagnostics collected during layout */
+  warnings: DiagramWarning[];
+}
+
+/**
+ * Time spent in each generation step, in milliseconds
+ */
+export interface DiagramTimings {
+  /** Normalizing input and resolving orphans */
+  normalize: number;
+  
+  /** Validating the input */
+  validate: number;
+  
+  /** Building and sorting the hierarchy */
+  hierarchy: number;
+  
+  /** Calculating the layout */
+  layout: number;
+  
+  /** Rendering to SVG (or describing the layout for formats created from it) */
+  render: number;
+  
+  /** Converting to the output format */
+  convert: number;
+  
+  /** Total generation time */
+  total: number;
+}
+
+/**
+ * Detailed result of generating a diagram
+ */
+export interface DiagramResult {
+  /** The generated diagram in the requested format */
+  output: string | Buffer;
+  
+  /** Diagram width */
+  width: number;
+  
+  /** Diagram height */
+  height: number;
+  
+  /** Options after merging with the defaults */
+  options: DiagramOptions;
+  
+  /** Registered name of the layout engine used, e.g. `grid` */
+  engine: string;
+  
+  /** Final layout of every node, in depth-first order */
+  layout: NodeLayoutEntry[];
+  
+  /** Time spent in each step */
+  timings: DiagramTimings;
+  
+  /** Diagnostics collected during generation */
+  warnings: DiagramWarning[];
+}
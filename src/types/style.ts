@@ -2,6 +2,9 @@
  * Style configuration for the diagram
  */
 export interface StyleOptions {
+  /** Name of a registered theme whose values apply below the other style options */
+  theme?: string;
+  
   /** Font family for node text */
   fontFamily?: string;
   
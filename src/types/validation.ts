@@ -0,0 +1,73 @@
+/**
+ * Kinds of problems reported by hierarchy validation
+ */
+export type ValidationIssueCode =
+  | 'INVALID_INPUT'
+  | 'EMPTY_INPUT'
+  | 'INVALID_NODE'
+  | 'MISSING_ID'
+  | 'BLANK_ID'
+  | 'DUPLICATE_ID'
+  | 'INVALID_NAME'
+  | 'EMPTY_NAME'
+  | 'INVALID_PARENT'
+  | 'MISSING_PARENT'
+  | 'SELF_PARENT'
+  | 'CYCLE'
+  | 'INVALID_FIELD';
+
+/**
+ * Severity of a validation issue; only errors prevent diagram generation
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * A single problem found in the input hierarchy
+ */
+export interface ValidationIssue {
+  /** Machine-readable issue code */
+  code: ValidationIssueCode;
+  
+  /** Whether the issue blocks diagram generation */
+  severity: ValidationSeverity;
+  
+  /** Human-readable description */
+  message: string;
+  
+  /** ID of the affected node, if it has one */
+  nodeId?: string;
+  
+  /** Index of the affected node in the input array */
+  index?: number;
+}
+
+/**
+ * Result of applying an orphan policy to hierarchy input
+ */
+export interface OrphanResolution {
+  /** Nodes with orphans dropped, promoted or re-attached */
+  nodes: import('./input.js').HierarchyNode[];
+  
+  /** One warning per orphan, describing how it was resolved */
+  issues: ValidationIssue[];
+}
+
+/**
+ * Result of validating an input hierarchy
+ */
+export interface ValidationReport {
+  /** True if there are no errors (warnings are allowed) */
+  valid: boolean;
+  
+  /** Number of nodes checked */
+  nodeCount: number;
+  
+  /** Number of error issues */
+  errorCount: number;
+  
+  /** Number of warning issues */
+  warningCount: number;
+  
+  /** All issues, in input order */
+  issues: ValidationIssue[];
+}
@@ -1,2 +1,3 @@
 export * from './textMeasure.js';
 export * from './styleUtils.js';
+export * from './warnings.js';
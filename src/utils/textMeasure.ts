@@ -11,6 +11,9 @@ export interface TextMeasurer {
    * @returns The width and height of the text
    */
   measureText(text: string, fontSize: number, fontFamily: string): { width: number; height: number };
+  
+  /** True if measurements are estimated because no canvas implementation is available */
+  readonly estimated?: boolean;
 }
 
 /**
@@ -19,6 +22,7 @@ export interface TextMeasurer {
 export class NodeTextMeasurer implements TextMeasurer {
   private canvas: any;
   private context: any;
+  readonly estimated: boolean = false;
   
   constructor() {
     try {
@@ -27,7 +31,8 @@ export class NodeTextMeasurer implements TextMeasurer {
       this.canvas = createCanvas(100, 100);
       this.context = this.canvas.getContext('2d');
     } catch (err) {
-      console.warn('Canvas module not available. Text measurements will be estimated.');
+      // Reported as a warning by the generator
+      this.estimated = true;
     }
   }
   
@@ -0,0 +1,8 @@
+import { WarningHandler } from '../types/index.js';
+
+/**
+ * Default warning handler, which logs the warning message to the console
+ */
+export const consoleWarningHandler: WarningHandler = warning => {
+  console.warn(warning.message);
+};
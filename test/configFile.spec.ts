@@ -0,0 +1,55 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { InputError } from '../src/errors';
+import { findConfigFile, loadConfigFile, resolveCliOptions } from '../src/node/configFile';
+
+describe('Configuration file', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'metis-'));
+    await fs.mkdir(path.join(root, 'project', 'docs', 'diagrams'), { recursive: true });
+    await fs.writeFile(path.join(root, 'metis.config.json'), '{}');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should look for the configuration file in parent directories', async () => {
+    await expect(findConfigFile(path.join(root, 'project', 'docs', 'diagrams')))
+      .resolves.toBe(path.join(root, 'metis.config.json'));
+  });
+
+  it('should use the nearest configuration file, preferring metis.config.json', async () => {
+    await fs.writeFile(path.join(root, 'project', '.metisrc'), '{}');
+    await expect(findConfigFile(path.join(root, 'project', 'docs')))
+      .resolves.toBe(path.join(root, 'project', '.metisrc'));
+
+    await fs.writeFile(path.join(root, 'project', 'metis.config.json'), '{}');
+    await expect(findConfigFile(path.join(root, 'project')))
+      .resolves.toBe(path.join(root, 'project', 'metis.config.json'));
+  });
+
+  it('should report unreadable and invalid configuration files as input errors', async () => {
+    await expect(loadConfigFile(path.join(root, 'missing.json'))).rejects.toThrow(InputError);
+
+    await fs.writeFile(path.join(root, 'invalid.json'), '{"layout": {"columns": "three"}}');
+    await expect(loadConfigFile(path.join(root, 'invalid.json'))).rejects.toThrow(InputError);
+  });
+
+  it('should merge CLI flags over the profile, file defaults and built-in defaults', () => {
+    const options = resolveCliOptions({
+      defaults: { format: 'svg', layout: { layoutType: 'grid', columns: 2, padding: 10, spacing: 5 } },
+      config: { format: 'png', layout: { columns: 3, padding: 12, spacing: 8 }, style: { fontSize: 11 } },
+      document: { layout: { columns: 4, padding: 14 } },
+      profile: { layout: { columns: 5 }, style: { fontSize: 13 } },
+      flags: { layout: { columns: 6 } }
+    });
+
+    expect(options.format).toBe('png');
+    expect(options.layout).toEqual({ layoutType: 'grid', columns: 6, padding: 14, spacing: 8 });
+    expect(options.style).toEqual({ fontSize: 13 });
+  });
+});
@@ -0,0 +1,48 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { InputError } from '../src/errors';
+import { readDirectoryTree } from '../src/node/directoryImporter';
+
+describe('Directory tree', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'metis-'));
+    await fs.mkdir(path.join(root, 'src', 'lib'), { recursive: true });
+    await fs.mkdir(path.join(root, 'node_modules'));
+    await fs.writeFile(path.join(root, 'src', 'index.ts'), 'export {};\n');
+    await fs.writeFile(path.join(root, 'src', 'lib', 'util.ts'), '// util\n');
+    await fs.writeFile(path.join(root, 'README.md'), '# Readme\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should map folders to parents and files to leaves', async () => {
+    const nodes = await readDirectoryTree(root, { exclude: ['node_modules'], fileSizes: true });
+    const name = path.basename(root);
+
+    expect(nodes.map(node => [node.id, node.parent])).toEqual([
+      [name, null],
+      [`${name}/README.md`, name],
+      [`${name}/src`, name],
+      [`${name}/src/index.ts`, `${name}/src`],
+      [`${name}/src/lib`, `${name}/src`],
+      [`${name}/src/lib/util.ts`, `${name}/src/lib`]
+    ]);
+    expect(nodes[0].properties).toEqual({ type: 'folder', size: 28 });
+  });
+
+  it('should apply include globs and the maximum depth', async () => {
+    const nodes = await readDirectoryTree(root, { include: ['*.ts'], maxDepth: 2 });
+
+    expect(nodes.map(node => node.name)).toEqual([path.basename(root), 'src', 'index.ts', 'lib']);
+  });
+
+  it('should report missing directories and files as input errors', async () => {
+    await expect(readDirectoryTree(path.join(root, 'missing'))).rejects.toThrow(InputError);
+    await expect(readDirectoryTree(path.join(root, 'README.md'))).rejects.toThrow('Not a directory');
+  });
+});
@@ -1,7 +1,11 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { generateDiagram } from '../src/core';
-import { HierarchyNode } from '../src/types';
+import { computeLayout, generateDiagram, generateDiagramDetailed, validateHierarchy } from '../src/core';
+import { applyPalette, listThemes, parsePalette, registerTheme } from '../src/config';
+import { InputError, LayoutError, ValidationError } from '../src/errors';
+import { createLayoutEngine, GridLayoutEngine, listLayoutEngines, registerLayoutEngine } from '../src/layout';
+import { findOutputFormatByExtension, registerOutputFormat } from '../src/output';
+import { DiagramWarning, HierarchyNode } from '../src/types';
 
 describe('Diagram Generator', () => {
   it('should generate an SVG diagram from sample data', async () => {
@@ -27,6 +31,34 @@ describe('Diagram Generator', () => {
     expect(result).toContain('Human Channels');
   });
   
+  it('should report dimensions, layout, timings and warnings of the sample diagram', async () => {
+    const sampleDataPath = path.join(__dirname, 'fixtures', 'sample-hierarchy.json');
+    const sampleData: HierarchyNode[] = JSON.parse(await fs.readFile(sampleDataPath, 'utf-8'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    
+    // JSON output skips SVG rendering
+    const result = await generateDiagramDetailed(sampleData, { format: 'json', style: { theme: 'neon' } });
+    warn.mockRestore();
+    
+    expect(result.width).toBeGreaterThan(0);
+    expect(result.height).toBeGreaterThan(0);
+    expect(result.engine).toBe('grid');
+    
+    expect(result.layout.map(entry => entry.id).sort()).toEqual(sampleData.map(node => node.id).sort());
+    expect(result.layout[0]).toMatchObject({ id: 'channels', parent: null, depth: 0 });
+    result.layout.forEach(entry => {
+      expect(entry.x + entry.width).toBeLessThanOrEqual(result.width);
+      expect(entry.y + entry.height).toBeLessThanOrEqual(result.height);
+    });
+    
+    const { total, ...steps } = result.timings;
+    Object.values(steps).forEach(duration => expect(duration).toBeGreaterThanOrEqual(0));
+    expect(total).toBeCloseTo(Object.values(steps).reduce((sum, duration) => sum + duration, 0));
+    
+    expect(result.warnings.map(warning => warning.code)).toContain('UNKNOWN_THEME');
+    expect(warn).not.toHaveBeenCalled();
+  });
+  
   it('should throw error for invalid input', async () => {
     // Test with empty array
     await expect(generateDiagram([])).rejects.toThrow();
@@ -38,4 +70,174 @@ describe('Diagram Generator', () => {
     
     await expect(generateDiagram(invalidData)).rejects.toThrow();
   });
+  
+  it('should reject invalid input from the detailed generator', async () => {
+    await expect(generateDiagramDetailed([])).rejects.toThrow(ValidationError);
+  });
+  
+  it('should reject malformed filters, nested trees and sort strategies with typed errors', () => {
+    const nodes = [{ id: 'root', name: 'Root', parent: null }];
+    
+    expect(() => computeLayout(nodes, { filter: 'tag:core and (' })).toThrow(InputError);
+    expect(() => computeLayout({ name: 'Root', children: 'none' } as any)).toThrow(InputError);
+    expect(() => computeLayout(nodes, { layout: { sortChildren: 'random' as any } })).toThrow(LayoutError);
+  });
+  
+  it('should report unknown layout types to the warning handler', () => {
+    const warnings: DiagramWarning[] = [];
+    const engine = createLayoutEngine({ layoutType: 'spiral' }, {}, warning => warnings.push(warning));
+    
+    expect(engine).toBeInstanceOf(GridLayoutEngine);
+    expect(engine.name).toBe('grid');
+    expect(warnings.map(warning => warning.code)).toEqual(['UNKNOWN_LAYOUT_TYPE']);
+  });
+  
+  it('should report resolved orphans with the code validation uses', () => {
+    const nodes: HierarchyNode[] = [
+      { id: 'root', name: 'Root', parent: null },
+      { id: 'orphan', name: 'Orphan', parent: 'missing' }
+    ];
+    
+    const layout = computeLayout(nodes, { orphanPolicy: 'promote-to-root' });
+    const report = validateHierarchy(nodes, { orphanPolicy: 'promote-to-root' });
+    
+    expect(layout.warnings.filter(warning => warning.code === 'MISSING_PARENT').map(warning => warning.nodeId))
+      .toEqual(['orphan']);
+    expect(report.issues.map(issue => [issue.code, issue.nodeId])).toEqual([['MISSING_PARENT', 'orphan']]);
+  });
+  
+  it('should use a registered layout engine by default', () => {
+    const layout = computeLayout([{ id: 'root', name: 'Root', parent: null }]);
+    
+    expect(layout.warnings.map(warning => warning.code)).not.toContain('UNKNOWN_LAYOUT_TYPE');
+    expect(layout.warnings.map(warning => warning.code)).not.toContain('LAYOUT_FALLBACK');
+  });
+  
+  it('should create registered layout engines by name or alias', () => {
+    class WideLayoutEngine extends GridLayoutEngine {}
+    registerLayoutEngine(
+      'wide',
+      (layoutOptions, styleOptions) => new WideLayoutEngine({ ...layoutOptions, columns: 4 }, styleOptions),
+      { columns: { type: 'number', description: 'Always 4', default: 4 } },
+      { description: 'Four columns', aliases: ['four-columns'] }
+    );
+    
+    expect(createLayoutEngine({ layoutType: 'Four-Columns' })).toBeInstanceOf(WideLayoutEngine);
+    expect(createLayoutEngine({ layoutType: 'Four-Columns' }).name).toBe('wide');
+    expect(createLayoutEngine({ layoutType: 'flow-aspect' }).name).toBe('flowGrid');
+    expect(listLayoutEngines().map(engine => engine.name)).toEqual(
+      ['grid', 'aspectRatio', 'flowGrid', 'permutation', 'packing', 'wide']
+    );
+    expect(() => registerLayoutEngine('other', () => new GridLayoutEngine(), {}, { aliases: ['wide'] }))
+      .toThrow('already used by the wide engine');
+  });
+  
+  it('should compute a serializable layout without rendering', async () => {
+    const data: HierarchyNode[] = [
+      { id: 'root', name: 'Root', parent: null },
+      { id: 'a', name: 'Customer Relationship Management', parent: 'root' },
+      { id: 'b', name: 'Billing', parent: 'root' }
+    ];
+    
+    const options = { layout: { layoutType: 'grid' }, style: { fontSize: 10, leafNodeWidth: 80 } };
+    const layout = computeLayout(data, options);
+    
+    expect(layout.engine).toBe('grid');
+    expect(layout.nodes.map(node => [node.id, node.depth])).toEqual([['root', 0], ['a', 1], ['b', 1]]);
+    expect(layout.nodes[0].fontSize).toBe(12);
+    expect(layout.nodes[1].fontSize).toBe(10);
+    expect(layout.nodes[1].labelLines.length).toBeGreaterThan(1);
+    expect(layout.nodes[2].labelLines).toEqual(['Billing']);
+    
+    const json = await generateDiagram(data, { ...options, format: 'json' });
+    expect(JSON.parse(json as string).nodes).toEqual(layout.nodes);
+  });
+  
+  it('should convert with registered output formats', async () => {
+    registerOutputFormat('ids', {
+      mimeType: 'text/plain',
+      extension: '.ids',
+      options: { separator: { type: 'string', description: 'Separator between IDs', default: ',' } },
+      convertLayout: (layout, options) => layout.nodes.map(node => node.id).join(String(options.separator ?? ','))
+    });
+    
+    const data: HierarchyNode[] = [
+      { id: 'root', name: 'Root', parent: null },
+      { id: 'child', name: 'Child', parent: 'root' }
+    ];
+    
+    await expect(generateDiagram(data, { format: 'ids', formatOptions: { separator: ' ' } })).resolves.toBe('root child');
+    await expect(generateDiagram(data, { format: 'gif' })).rejects.toThrow('Unsupported output format: gif');
+    expect(findOutputFormatByExtension('.IDS')).toBe('ids');
+    expect(findOutputFormatByExtension('png')).toBe('png');
+  });
+  
+  it('should pass warnings to the handler given to generateDiagram', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const warnings: DiagramWarning[] = [];
+    const data: HierarchyNode[] = [{ id: 'root', name: 'Root', parent: null }];
+    
+    await generateDiagram(data, { format: 'json', layout: { layoutType: 'spiral' } }, warning => warnings.push(warning));
+    
+    expect(warnings.map(warning => warning.code)).toContain('UNKNOWN_LAYOUT_TYPE');
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+  
+  it('should apply palettes and report roots without a color', () => {
+    const palettes = {
+      palettes: {
+        products: { digital: '#cce5ff', branches: '#d4edda' },
+        levels: { 0: '#f8f8f8', 1: '#d0e8f2', leaf: '#ffe6e6' }
+      }
+    };
+    const data: HierarchyNode[] = [
+      { id: 'digital', name: 'Digital', parent: null },
+      { id: 'partners', name: 'Partners', parent: null },
+      { id: 'web', name: 'Web', parent: 'digital' }
+    ];
+    
+    expect(parsePalette(palettes, 'levels').byLevel).toBe(true);
+    expect(() => parsePalette(palettes)).toThrow('pick one of products, levels');
+    
+    const levelLayout = computeLayout(data, { style: applyPalette({}, parsePalette(palettes, 'levels')) });
+    expect(levelLayout.warnings.map(warning => warning.code)).not.toContain('UNCOLORED_ROOTS');
+    
+    const products = parsePalette(palettes, 'products');
+    expect(products.byLevel).toBe(false);
+    
+    const layout = computeLayout(data, { style: applyPalette({}, products) });
+    const warning = layout.warnings.find(item => item.code === 'UNCOLORED_ROOTS');
+    expect(warning?.message).toContain('partners');
+    expect(warning?.message).not.toContain('digital');
+  });
+  
+  it('should apply themes below explicit style options', async () => {
+    registerTheme('ocean', {
+      description: 'Blue levels',
+      style: { fontColor: '#003366', borderRadius: 0, colorByLevel: true, colorPalette: { 0: '#cce5ff', leaf: '#e6f2ff' } }
+    });
+    const data: HierarchyNode[] = [{ id: 'root', name: 'Root', parent: null }];
+    
+    expect(listThemes().map(theme => theme.name)).toEqual(
+      expect.arrayContaining(['default', 'corporate', 'print', 'dark', 'high-contrast', 'ocean'])
+    );
+    
+    const result = await generateDiagramDetailed(data, { format: 'json', style: { theme: 'ocean', borderRadius: 8 } });
+    expect(result.options.style).toMatchObject({ fontColor: '#003366', borderRadius: 8, colorByLevel: true });
+    
+    const byLevel = await generateDiagramDetailed(
+      data,
+      { format: 'json', style: { theme: 'ocean', colorPalette: { 0: '#ffcc00' }, colorByLevel: true } }
+    );
+    expect(byLevel.options.style?.colorByLevel).toBe(true);
+    const rootPaletteOptions = await generateDiagramDetailed(
+      data,
+      { format: 'json', style: { theme: 'ocean', colorPalette: { root: '#ffcc00' } } }
+    );
+    expect(rootPaletteOptions.options.style?.colorByLevel).toBe(false);
+    
+    const fallback = computeLayout(data, { style: { theme: 'missing' } });
+    expect(fallback.warnings.map(warning => warning.code)).toContain('UNKNOWN_THEME');
+  });
 });
@@ -0,0 +1,210 @@
+import {
+  buildHierarchy,
+  composeHierarchies,
+  computeLayout,
+  filterHierarchy,
+  flattenHierarchy,
+  focusHierarchy,
+  limitDepth,
+  parseFilterExpression,
+  resolveOrphans,
+  sortHierarchy,
+  validateHierarchy,
+  validateHierarchyInput
+} from '../src/core';
+import { CycleError, ValidationError } from '../src/errors';
+import { HierarchyNode, TreeNode } from '../src/types';
+
+describe('Hierarchy', () => {
+  const nodes: HierarchyNode[] = [
+    { id: 'root', name: 'Root', parent: null },
+    { id: 'c', name: 'Charlie', parent: 'root', order: 2 },
+    { id: 'a', name: 'Alpha', parent: 'root' },
+    { id: 'b', name: 'Bravo', parent: 'root', order: 1 },
+    { id: 'b1', name: 'Bravo One', parent: 'b' }
+  ];
+
+  const childIds = (strategy: Parameters<typeof sortHierarchy>[1]) =>
+    sortHierarchy(buildHierarchy(nodes), strategy)[0].children.map(child => child.data.id);
+
+  it('should keep input order by default', () => {
+    expect(childIds('input')).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should sort siblings by order, name and size', () => {
+    expect(childIds('order')).toEqual(['b', 'c', 'a']);
+    expect(childIds('name')).toEqual(['a', 'b', 'c']);
+    expect(childIds('size')).toEqual(['b', 'c', 'a']);
+  });
+
+  it('should sort by the size property when a node has one', () => {
+    const sized: HierarchyNode[] = [
+      { id: 'root', name: 'Root', parent: null },
+      { id: 'small', name: 'Small', parent: 'root', properties: { size: 10 } },
+      { id: 'large', name: 'Large', parent: 'root', properties: { size: 2048 } },
+      { id: 'folder', name: 'Folder', parent: 'root' },
+      { id: 'file', name: 'File', parent: 'folder' }
+    ];
+    
+    const ids = sortHierarchy(buildHierarchy(sized), 'size')[0].children.map(child => child.data.id);
+    expect(ids).toEqual(['large', 'small', 'folder']);
+  });
+
+  it('should accept a custom comparator', () => {
+    expect(childIds((x, y) => y.data.name.localeCompare(x.data.name))).toEqual(['c', 'b', 'a']);
+  });
+
+  it('should report every validation issue', () => {
+    const report = validateHierarchy([
+      { id: 'root', name: 'Root', parent: null },
+      { id: 'root', name: 'Copy', parent: null },
+      { id: ' ', name: 'Blank', parent: 'root' },
+      { id: 'self', name: '', parent: 'self' },
+      { id: 'orphan', name: 'Orphan', parent: 'missing' },
+      { id: 'a', name: 'A', parent: 'b' },
+      { id: 'b', name: 'B', parent: 'a' }
+    ]);
+
+    expect(report.valid).toBe(false);
+    expect(report.issues.map(issue => [issue.code, issue.index])).toEqual([
+      ['DUPLICATE_ID', 1],
+      ['BLANK_ID', 2],
+      ['EMPTY_NAME', 3],
+      ['SELF_PARENT', 3],
+      ['MISSING_PARENT', 4],
+      ['CYCLE', 5]
+    ]);
+    expect(report.warningCount).toBe(1);
+  });
+
+  it('should resolve orphans according to the orphan policy', () => {
+    const input: HierarchyNode[] = [
+      { id: 'root', name: 'Root', parent: null },
+      { id: 'orphan', name: 'Orphan', parent: 'missing' },
+      { id: 'child', name: 'Child', parent: 'orphan' }
+    ];
+
+    expect(resolveOrphans(input, 'drop').nodes.map(node => node.id)).toEqual(['root']);
+    expect(resolveOrphans(input, 'promote-to-root').nodes[1].parent).toBeNull();
+
+    const attached = resolveOrphans(input, 'attach-to', 'Loose ends');
+    expect(buildHierarchy(attached.nodes).map(root => root.data.name)).toEqual(['Root', 'Loose ends']);
+    expect(attached.issues).toHaveLength(1);
+    expect(attached.issues[0]).toMatchObject({ code: 'MISSING_PARENT', severity: 'warning', nodeId: 'orphan' });
+  });
+
+  it('should report entries that are not nodes when an orphan policy is set', () => {
+    const input = [null, { id: 'a', name: 'A', parent: 'x' }] as unknown as HierarchyNode[];
+    
+    ['drop', 'promote-to-root', 'attach-to'].forEach(orphanPolicy => {
+      const report = validateHierarchy(input, { orphanPolicy: orphanPolicy as 'drop' });
+      expect(report.issues.map(issue => issue.code)).toContain('INVALID_NODE');
+    });
+    expect(() => validateHierarchyInput(resolveOrphans(input, 'drop').nodes)).toThrow(ValidationError);
+  });
+  
+  it('should compose sources with mounting and namespacing', () => {
+    const composed = composeHierarchies([
+      { name: 'bank.json', nodes: [{ id: 'bank', name: 'Bank', parent: null }] },
+      {
+        name: 'payments.json',
+        nodes: [
+          { id: 'payments', name: 'Payments', parent: null },
+          { id: 'cards', name: 'Cards', parent: 'payments' }
+        ],
+        mountAt: 'bank',
+        namespace: 'payments'
+      }
+    ]);
+
+    expect(composed.map(node => [node.id, node.parent])).toEqual([
+      ['bank', null],
+      ['payments/payments', 'bank'],
+      ['payments/cards', 'payments/payments']
+    ]);
+
+    expect(() => composeHierarchies([
+      { name: 'a.json', nodes: [{ id: 'x', name: 'X', parent: null }] },
+      { name: 'b.json', nodes: [{ id: 'x', name: 'X', parent: null }] }
+    ])).toThrow('x in b.json (already defined in a.json)');
+  });
+
+  it('should throw typed errors with the offending node ids', () => {
+    const cyclic: HierarchyNode[] = [
+      { id: 'a', name: 'A', parent: 'b' },
+      { id: 'b', name: 'B', parent: 'a' }
+    ];
+
+    expect(() => validateHierarchyInput(cyclic)).toThrow(CycleError);
+    expect(() => buildHierarchy(cyclic)).toThrow(expect.objectContaining({
+      code: 'CYCLE_ERROR',
+      nodeIds: ['a', 'b', 'a']
+    }));
+
+    try {
+      validateHierarchyInput([...nodes, { id: 'orphan', name: 'Orphan', parent: 'missing' }]);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error).not.toBeInstanceOf(CycleError);
+      expect((error as ValidationError).code).toBe('VALIDATION_ERROR');
+      expect((error as ValidationError).nodeIds).toEqual(['orphan']);
+    }
+    expect.assertions(6);
+  });
+  
+  it('should focus on subtrees and limit their depth', () => {
+    const nodes: HierarchyNode[] = [
+      { id: 'bank', name: 'Bank', parent: null },
+      { id: 'customer', name: 'Customer', parent: 'bank' },
+      { id: 'channels', name: 'Channels', parent: 'customer' },
+      { id: 'digital', name: 'Digital', parent: 'channels' },
+      { id: 'mobile', name: 'Mobile', parent: 'digital' },
+      { id: 'branches', name: 'Branches', parent: 'channels' },
+      { id: 'sales', name: 'Sales', parent: 'customer' }
+    ];
+    
+    const focused = focusHierarchy(buildHierarchy(nodes), ['channels', 'mobile']);
+    expect(focused.rootNodes.map(node => node.data.id)).toEqual(['channels']);
+    expect(focused.rootNodes[0].data.parent).toBeNull();
+    expect(focused.breadcrumb).toEqual(['Bank', 'Customer']);
+    expect(focusHierarchy(buildHierarchy(nodes), ['channels', 'sales']).breadcrumb).toEqual(['Bank', 'Customer']);
+    expect(() => focusHierarchy(buildHierarchy(nodes), ['atms'])).toThrow(ValidationError);
+    
+    const [channels] = limitDepth(focused.rootNodes, 1);
+    expect(channels.children.map(child => child.data.id)).toEqual(['digital', 'branches']);
+    expect(channels.children[0].children).toEqual([]);
+    
+    const layout = computeLayout(nodes, { focus: 'channels', maxDepth: 1, breadcrumb: true });
+    expect(layout.nodes.map(node => node.id)).toEqual(['channels', 'digital', 'branches']);
+    expect(layout.breadcrumb).toEqual(['Bank', 'Customer']);
+    expect(layout.nodes[0].y).toBeGreaterThan(computeLayout(nodes, { focus: 'channels', maxDepth: 1 }).nodes[0].y);
+  });
+  
+  it('should filter nodes by expression, keeping their ancestors', () => {
+    const nodes: HierarchyNode[] = [
+      { id: 'bank', name: 'Bank', parent: null },
+      { id: 'risk', name: 'Risk', parent: 'bank' },
+      { id: 'aml', name: 'AML', parent: 'risk', tags: ['regulatory'], properties: { status: 'target' } },
+      { id: 'credit', name: 'Credit Risk', parent: 'risk', properties: { status: 'current' } },
+      { id: 'sales', name: 'Sales', parent: 'bank', properties: { status: 'target' } }
+    ];
+    const flattenIds = (rootNodes: TreeNode[]) => flattenHierarchy(rootNodes).map(({ node }) => node.data.id);
+    
+    const regulatory = filterHierarchy(buildHierarchy(nodes), parseFilterExpression('tag:regulatory'));
+    expect(flattenIds(regulatory)).toEqual(['bank', 'risk', 'aml']);
+    
+    const target = filterHierarchy(buildHierarchy(nodes), parseFilterExpression('status=target and not (tag:regulatory or name="Credit Risk")'));
+    expect(flattenIds(target)).toEqual(['bank', 'sales']);
+    
+    const dimmed = filterHierarchy(buildHierarchy(nodes), parseFilterExpression('tag:regulatory'), 'dim');
+    expect(flattenIds(dimmed)).toEqual(['bank', 'risk', 'aml', 'credit', 'sales']);
+    expect(dimmed[0].children.map(child => child.dimmed === true)).toEqual([false, true]);
+    
+    expect(() => filterHierarchy(buildHierarchy(nodes), parseFilterExpression('owner=nobody'))).toThrow(ValidationError);
+    expect(() => parseFilterExpression('tag:regulatory and')).toThrow('unexpected end of expression');
+    expect(() => parseFilterExpression('(status=target')).toThrow('missing closing parenthesis');
+    
+    const layout = computeLayout(nodes, { filter: node => node.id !== 'sales', filterMode: 'dim' });
+    expect(layout.nodes.filter(node => node.dimmed).map(node => node.id)).toEqual(['sales']);
+  });
+});
@@ -0,0 +1,396 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { InputError } from '../src/errors';
+import { parseCsv, parseInput, detectInputFormat, isNestedTree, parseNestedTree, parseOutline, parsePaths, parseMermaidMindmap, parseOpml, parseDiagramDocument, parseDiagramConfig, parseArchimate, parseSkos } from '../src/importers';
+
+describe('Importers', () => {
+  describe('CSV/TSV', () => {
+    it('should map id, name and parent columns and keep extra columns', () => {
+      const csv = [
+        'Code,Title,Parent Code,Owner,tags',
+        'ch,Channels,,Sales,',
+        'dig,"Digital, Self-Service",ch,,core; digital'
+      ].join('\n');
+
+      const nodes = parseCsv(csv, {
+        idColumn: 'Code',
+        nameColumn: 'Title',
+        parentColumn: 'Parent Code'
+      });
+
+      expect(nodes).toEqual([
+        { id: 'ch', name: 'Channels', parent: null, properties: { Owner: 'Sales' } },
+        { id: 'dig', name: 'Digital, Self-Service', parent: 'ch', tags: ['core', 'digital'] }
+      ]);
+    });
+
+    it('should build parent links from level columns', () => {
+      const tsv = ['L1\tL2\tL3', 'Channels\tDigital\tWeb', 'Channels\tDigital\tMobile'].join('\n');
+
+      const nodes = parseInput(tsv, 'tsv', { csv: { levelColumns: ['L1', 'L2', 'L3'] } });
+
+      expect(nodes.map(node => [node.id, node.parent])).toEqual([
+        ['channels', null],
+        ['channels/digital', 'channels'],
+        ['channels/digital/web', 'channels/digital'],
+        ['channels/digital/mobile', 'channels/digital']
+      ]);
+    });
+
+    it('should keep Unicode names and report level values with the same id', () => {
+      const unicode = ['L1,L2', '財務,予算', '人事,採用'].join('\n');
+      expect(parseInput(unicode, 'csv', { csv: { levelColumns: ['L1', 'L2'] } }).map(node => node.id))
+        .toEqual(['財務', '財務/予算', '人事', '人事/採用']);
+
+      const colliding = ['L1,L2', 'Org,R&D', 'Org,R D'].join('\n');
+      expect(() => parseInput(colliding, 'csv', { csv: { levelColumns: ['L1', 'L2'] } }))
+        .toThrow('Row 3: "R D" produces the same id "org/r-d"');
+    });
+
+    it('should report unparsable input of every format as InputError', () => {
+      const inputs: [string, Parameters<typeof parseInput>[1]][] = [
+        ['{"id": ', 'json'],
+        ['[{"name": ', 'nested'],
+        ['id,name,parent\n"a,A,', 'csv'],
+        ['- A\n\t- B\n  - C', 'outline'],
+        ['["a//b"]', 'paths'],
+        ['graph TD', 'mermaid'],
+        ['<opml><body>', 'opml'],
+        ['nodes: [', 'yaml'],
+        ['<model>', 'archimate'],
+        ['@prefix', 'skos']
+      ];
+      
+      inputs.forEach(([content, format]) => {
+        expect(() => parseInput(content, format)).toThrow(InputError);
+      });
+    });
+
+    it('should detect the input format from the file extension', () => {
+      expect(detectInputFormat('model.CSV')).toBe('csv');
+      expect(detectInputFormat('model.tsv')).toBe('tsv');
+      expect(detectInputFormat('model.json')).toBe('json');
+    });
+  });
+
+  describe('Nested tree JSON', () => {
+    it('should flatten children and generate missing ids from the name path', () => {
+      const nodes = parseNestedTree({
+        name: 'Channels',
+        children: [{ id: 'dig', name: 'Digital', children: [{ name: 'Open Banking' }] }]
+      });
+
+      expect(nodes).toEqual([
+        { id: 'channels', name: 'Channels', parent: null },
+        { id: 'dig', name: 'Digital', parent: 'channels' },
+        { id: 'channels/digital/open-banking', name: 'Open Banking', parent: 'dig' }
+      ]);
+    });
+
+    it('should keep description, tags and properties', () => {
+      // Other scalar fields are collected into properties
+      const input = {
+        name: 'Payments',
+        description: 'Moving money',
+        tags: ['regulatory'],
+        properties: { status: 'target' },
+        owner: 'Ops'
+      };
+
+      const [node] = parseNestedTree(input);
+
+      expect(node).toEqual({
+        id: 'payments',
+        name: 'Payments',
+        parent: null,
+        description: 'Moving money',
+        tags: ['regulatory'],
+        properties: { status: 'target', owner: 'Ops' }
+      });
+    });
+
+    it('should detect nested trees in JSON input', () => {
+      const json = JSON.stringify([{ name: 'A', children: [{ name: 'B' }] }]);
+      expect(parseInput(json, 'json').map(node => node.id)).toEqual(['a', 'a/b']);
+    });
+
+    it('should detect nested lists in which no node has children', () => {
+      expect(isNestedTree([{ name: 'A' }, { name: 'B' }])).toBe(true);
+      expect(parseInput(JSON.stringify([{ name: 'A' }, { name: 'B' }]), 'json').map(node => node.id))
+        .toEqual(['a', 'b']);
+      expect(isNestedTree([{ id: 'a', name: 'A', parent: null }])).toBe(false);
+      expect(isNestedTree([{ name: 'A', parent: null }])).toBe(false);
+      expect(isNestedTree([])).toBe(false);
+    });
+
+    it('should give generated ids that share a slug a numeric suffix', () => {
+      expect(parseNestedTree([{ name: '財務' }, { name: '人事' }]).map(node => node.id)).toEqual(['財務', '人事']);
+      expect(parseNestedTree([{ name: 'R&D', children: [{ name: 'Lab' }] }, { name: 'R D' }]).map(node => node.id))
+        .toEqual(['r-d', 'r-d/lab', 'r-d-2']);
+      expect(() => parseNestedTree([{ id: 'x', name: 'A' }, { id: 'x', name: 'B' }])).toThrow('duplicate id "x"');
+    });
+
+    it('should report the JSON path of an invalid node', () => {
+      expect(() =>
+        parseNestedTree([{ name: 'A', children: [{ name: 'B' }, { name: '' }] }])
+      ).toThrow('$[0].children[1]');
+    });
+  });
+
+  describe('Outline', () => {
+    it('should use headings and bullet indentation as levels', () => {
+      const outline = [
+        '# Channels',
+        '- Digital',
+        '  - Web',
+        '  - Mobile',
+        '- Human',
+        '## Partners',
+        '  Resellers'
+      ].join('\n');
+
+      const nodes = parseOutline(outline);
+
+      expect(nodes.map(node => [node.id, node.parent])).toEqual([
+        ['channels', null],
+        ['channels/digital', 'channels'],
+        ['channels/digital/web', 'channels/digital'],
+        ['channels/digital/mobile', 'channels/digital'],
+        ['channels/human', 'channels'],
+        ['channels/partners', 'channels'],
+        ['channels/partners/resellers', 'channels/partners']
+      ]);
+    });
+
+    it('should give siblings with the same slug unique ids', () => {
+      const nodes = parseOutline(['- 財務', '  - 予算', '- 人事', '- R&D', '- R D'].join('\n'));
+
+      expect(nodes.map(node => [node.id, node.parent])).toEqual([
+        ['財務', null],
+        ['財務/予算', '財務'],
+        ['人事', null],
+        ['r-d', null],
+        ['r-d-2', null]
+      ]);
+    });
+
+    it('should report inconsistent indentation with the line number', () => {
+      const outline = ['- A', '    - B', '  - C'].join('\n');
+      expect(() => parseOutline(outline)).toThrow('Line 3');
+    });
+  });
+
+  describe('Paths', () => {
+    it('should create intermediate nodes and honor escaped separators', () => {
+      const nodes = parsePaths(['Channels/Digital/Open Banking', '', 'Channels/Branch\\/ATM'].join('\n'));
+
+      expect(nodes.map(node => [node.id, node.name, node.parent])).toEqual([
+        ['channels', 'Channels', null],
+        ['channels/digital', 'Digital', 'channels'],
+        ['channels/digital/open-banking', 'Open Banking', 'channels/digital'],
+        ['channels/branch-atm', 'Branch/ATM', 'channels']
+      ]);
+    });
+
+    it('should read path columns with attributes from CSV', () => {
+      const csv = 'Path,Owner\nChannels > Digital,Digital team\n';
+      const nodes = parseCsv(csv, { pathColumn: 'Path', pathSeparator: '>' });
+
+      expect(nodes[1]).toEqual({
+        id: 'channels/digital',
+        name: 'Digital',
+        parent: 'channels',
+        properties: { Owner: 'Digital team' }
+      });
+    });
+  });
+
+  describe('Mermaid mindmap', () => {
+    it('should read a fenced mindmap with shapes and icons', () => {
+      const markdown = [
+        '# Ideas',
+        '```mermaid',
+        'mindmap',
+        '  root((Channels))',
+        '    Digital',
+        '      web[Web]',
+        '      ::icon(fa fa-globe)',
+        '    Human',
+        '```'
+      ].join('\n');
+
+      const nodes = parseMermaidMindmap(markdown);
+
+      expect(nodes.map(node => [node.id, node.parent])).toEqual([
+        ['channels', null],
+        ['channels/digital', 'channels'],
+        ['channels/digital/web', 'channels/digital'],
+        ['channels/human', 'channels']
+      ]);
+      expect(nodes[0].properties).toEqual({ shape: 'circle' });
+      expect(nodes[2].properties).toEqual({ shape: 'square', icon: 'fa fa-globe' });
+    });
+  });
+
+  describe('OPML', () => {
+    it('should read outlines with notes and attributes', () => {
+      const opml = `<?xml version="1.0"?>
+        <opml version="2.0">
+          <head><title>Capabilities</title></head>
+          <body>
+            <outline text="Channels" _note="How customers reach us">
+              <outline text="Digital" category="online" _status="checked"/>
+            </outline>
+          </body>
+        </opml>`;
+
+      expect(parseOpml(opml)).toEqual([
+        { id: 'channels', name: 'Channels', parent: null, description: 'How customers reach us' },
+        {
+          id: 'channels/digital',
+          name: 'Digital',
+          parent: 'channels',
+          tags: ['online'],
+          properties: { _status: 'checked' }
+        }
+      ]);
+    });
+  });
+
+  describe('YAML', () => {
+    it('should resolve a diagram document into nodes and options', () => {
+      const yaml = [
+        'layout:',
+        '  columns: 3',
+        'style:',
+        '  fontSize: 12',
+        'format: png',
+        'nodes:',
+        '  - id: root',
+        '    name: Root',
+        '  - id: child',
+        '    name: Child',
+        '    parent: root'
+      ].join('\n');
+
+      const { nodes, options } = parseDiagramDocument(yaml);
+
+      expect(nodes).toEqual([
+        { id: 'root', name: 'Root', parent: null },
+        { id: 'child', name: 'Child', parent: 'root' }
+      ]);
+      expect(options.layout).toEqual({ columns: 3 });
+      expect(options.style).toEqual({ fontSize: 12 });
+      expect(options.format).toBe('png');
+    });
+
+    it('should report invalid entries with line and column', () => {
+      const yaml = ['nodes:', '  - id: a', '    name: A', '  - id: b', '    name: [B]'].join('\n');
+      expect(() => parseDiagramDocument(yaml)).toThrow('line 4, column 5');
+    });
+
+    it('should read configuration defaults and profiles', () => {
+      const json = JSON.stringify({
+        layout: { padding: 10 },
+        profiles: {
+          'print-a3': { format: 'pdf', layout: { targetAspectRatio: 1.41 } },
+          'slide-16x9': { style: { fontSize: 18 } }
+        }
+      }, null, 2);
+
+      const config = parseDiagramConfig(json);
+
+      expect(config.options.layout).toEqual({ padding: 10 });
+      expect(Object.keys(config.profiles)).toEqual(['print-a3', 'slide-16x9']);
+      expect(config.profiles['print-a3'].format).toBe('pdf');
+      expect(config.profiles['slide-16x9'].style).toEqual({ fontSize: 18 });
+      expect(() => parseDiagramConfig('{"profiles": {"a4": {"nodes": []}}}')).toThrow('Unknown config key "profiles.a4.nodes"');
+    });
+  });
+
+  describe('ArchiMate', () => {
+    it('should import capabilities with their containment and attributes', async () => {
+      const xml = await fs.readFile(
+        path.join(__dirname, 'fixtures', 'archimate-capabilities.xml'),
+        'utf-8'
+      );
+
+      const nodes = parseArchimate(xml, { language: 'da' });
+
+      expect(nodes).toEqual([
+        {
+          id: 'cap-channels',
+          name: 'Kanaler',
+          parent: null,
+          description: 'How customers reach the bank',
+          properties: { type: 'Capability' }
+        },
+        {
+          id: 'cap-digital',
+          name: 'Digital Channels',
+          parent: 'cap-channels',
+          properties: { type: 'Capability', Maturity: '3' }
+        },
+        { id: 'cap-branch', name: 'Branch Network', parent: 'cap-channels', properties: { type: 'Capability' } }
+      ]);
+    });
+  });
+
+  describe('SKOS', () => {
+    const turtle = [
+      '@prefix skos: <http://www.w3.org/2004/02/skos/core#> .',
+      '@prefix ex: <http://example.org/> .',
+      'ex:channels a skos:Concept ; skos:prefLabel "Channels"@en, "Kanaler"@da .',
+      'ex:digital a skos:Concept ; skos:prefLabel "Digital"@en ; skos:broader ex:channels .',
+      'ex:partners a skos:Concept ; skos:prefLabel "Partners"@en .',
+      'ex:apis a skos:Concept ; skos:prefLabel "APIs"@en ; skos:broader ex:digital, ex:partners .'
+    ].join('\n');
+
+    it('should map concepts and broader links using the requested label language', () => {
+      const nodes = parseSkos(turtle, { language: 'da' });
+
+      expect(nodes.map(node => [node.id, node.name, node.parent])).toEqual([
+        ['http://example.org/channels', 'Kanaler', null],
+        ['http://example.org/digital', 'Digital', 'http://example.org/channels'],
+        ['http://example.org/partners', 'Partners', null],
+        ['http://example.org/apis', 'APIs', 'http://example.org/digital']
+      ]);
+    });
+
+    it('should apply the multiple-parent policy', () => {
+      expect(() => parseSkos(turtle, { multipleParents: 'error' })).toThrow('more than one broader');
+
+      const nodes = parseSkos(turtle, { multipleParents: 'duplicate' });
+      expect(nodes.filter(node => node.name === 'APIs').map(node => [node.id, node.parent])).toEqual([
+        ['http://example.org/apis', 'http://example.org/digital'],
+        ['http://example.org/apis#2', 'http://example.org/partners']
+      ]);
+    });
+
+    it('should read compacted JSON-LD', () => {
+      const jsonld = JSON.stringify({
+        '@context': { skos: 'http://www.w3.org/2004/02/skos/core#', ex: 'http://example.org/' },
+        '@graph': [
+          { '@id': 'ex:channels', '@type': 'skos:Concept', 'skos:prefLabel': { '@value': 'Channels', '@language': 'en' } },
+          { '@id': 'ex:digital', 'skos:prefLabel': 'Digital', 'skos:broader': { '@id': 'ex:channels' } }
+        ]
+      });
+
+      expect(parseSkos(jsonld).map(node => [node.name, node.parent])).toEqual([
+        ['Channels', null],
+        ['Digital', 'http://example.org/channels']
+      ]);
+    });
+
+    it('should reject JSON-LD context terms with cyclic definitions', () => {
+      const jsonld = (context: Record<string, unknown>) => JSON.stringify({
+        '@context': context,
+        '@id': 'http://example.org/channels',
+        name: 'Channels'
+      });
+
+      expect(() => parseSkos(jsonld({ name: 'name' }))).toThrow(InputError);
+      expect(() => parseSkos(jsonld({ name: 'label', label: { '@id': 'name' } }))).toThrow(/cyclic definition/);
+    });
+  });
+});
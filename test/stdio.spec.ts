@@ -0,0 +1,75 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { readInputText, StdioStreams, writeDiagram } from '../src/node/stdio';
+
+/**
+ * Collect everything written to a stream as text
+ */
+function capture(stream: PassThrough): () => string {
+  const chunks: Buffer[] = [];
+  stream.on('data', chunk => chunks.push(Buffer.from(chunk)));
+  return () => Buffer.concat(chunks).toString('utf-8');
+}
+
+describe('Standard streams', () => {
+  let root: string;
+  let streams: StdioStreams & { stdin: PassThrough; stdout: PassThrough & { isTTY?: boolean }; stderr: PassThrough };
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'metis-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    streams = { stdin: new PassThrough(), stdout: new PassThrough(), stderr: new PassThrough() };
+  });
+
+  it('should read stdin for the input file -', async () => {
+    streams.stdin.end('[{"id":"root","name":"Root","parent":null}]');
+
+    await expect(readInputText('-', streams)).resolves.toBe('[{"id":"root","name":"Root","parent":null}]');
+  });
+
+  it('should read other input files from disk', async () => {
+    const file = path.join(root, 'input.json');
+    await fs.writeFile(file, '[]');
+
+    await expect(readInputText(file, streams)).resolves.toBe('[]');
+  });
+
+  it('should write to stdout for the output file - and report on stderr', async () => {
+    const stdout = capture(streams.stdout);
+    const stderr = capture(streams.stderr);
+
+    await expect(writeDiagram('<svg/>', '-', streams)).resolves.toBe('stdout');
+    expect(stdout()).toBe('<svg/>');
+    expect(stderr()).toBe('Diagram successfully generated: stdout\n');
+  });
+
+  it('should write other output files to disk and report on stderr', async () => {
+    const file = path.join(root, 'diagram.png');
+    const stdout = capture(streams.stdout);
+    const stderr = capture(streams.stderr);
+
+    await writeDiagram(Buffer.from([0x89, 0x50]), file, streams);
+    expect(await fs.readFile(file)).toEqual(Buffer.from([0x89, 0x50]));
+    expect(stdout()).toBe('');
+    expect(stderr()).toBe(`Diagram successfully generated: ${file}\n`);
+  });
+
+  it('should refuse to write binary output to a terminal', async () => {
+    const stdout = capture(streams.stdout);
+    streams.stdout.isTTY = true;
+
+    await expect(writeDiagram(Buffer.from([0x89, 0x50]), '-', streams)).rejects.toThrow('Refusing to write binary output');
+    expect(stdout()).toBe('');
+
+    await writeDiagram('<svg/>', '-', streams);
+    expect(stdout()).toBe('<svg/>');
+  });
+});